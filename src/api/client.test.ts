@@ -0,0 +1,284 @@
+import { createHash } from "crypto";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { ApiError, PrusaLinkClient, printerModel } from "./client";
+import { PrusaLinkConfig } from "../types/config";
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+const STATUS = {
+  printer: { state: "PRINTING", axis_z: 1.2 },
+  job: { id: 42, progress: 50, time_remaining: 600, time_printing: 600 },
+};
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown) {
+  res.statusCode = statusCode;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+function md5(value: string): string {
+  return createHash("md5").update(value).digest("hex");
+}
+
+// Parameters of an Authorization: Digest header
+function digestParams(header: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const param of header.matchAll(/(\w+)=(?:"([^"]*)"|([^\s,]*))/g)) {
+    params[param[1]] = param[2] ?? param[3];
+  }
+  return params;
+}
+
+describe("PrusaLinkClient", () => {
+  let server: Server;
+  let port: number;
+  let handler: Handler;
+  let requests: IncomingMessage[];
+  let client: PrusaLinkClient | null;
+
+  function connect(options: Partial<PrusaLinkConfig> = {}): PrusaLinkClient {
+    client = new PrusaLinkClient({
+      host: "127.0.0.1",
+      port,
+      apiKey: "secret",
+      retryDelay: 0.01,
+      ...options,
+    });
+    return client;
+  }
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(req);
+      handler(req, res);
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", () => resolve())
+    );
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    client = null;
+    handler = (req, res) => sendJson(res, 404, { error: "Not found" });
+  });
+
+  afterEach(() => {
+    client?.close();
+    server.closeAllConnections();
+  });
+
+  it("reads the status with the API key", async () => {
+    handler = (req, res) => sendJson(res, 200, STATUS);
+
+    const status = await connect().getStatus();
+
+    expect(status).toEqual(STATUS);
+    expect(requests[0].url).toBe("/api/v1/status");
+    expect(requests[0].headers["x-api-key"]).toBe("secret");
+  });
+
+  it("returns null when there is no job", async () => {
+    handler = (req, res) => {
+      res.statusCode = 204;
+      res.end();
+    };
+
+    await expect(connect().getJob()).resolves.toBeNull();
+  });
+
+  it("reuses the connection between requests", async () => {
+    handler = (req, res) => sendJson(res, 200, STATUS);
+    const api = connect();
+
+    await api.getStatus();
+    await api.getStatus();
+
+    expect(requests[1].socket).toBe(requests[0].socket);
+  });
+
+  it("reports rejected credentials as an auth error", async () => {
+    handler = (req, res) => sendJson(res, 401, { error: "Unauthorized" });
+
+    const error = await connect()
+      .getStatus()
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.kind).toBe("auth");
+    expect(error.statusCode).toBe(401);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("reports other statuses and invalid JSON", async () => {
+    handler = (req, res) => sendJson(res, 500, { error: "Broken" });
+    await expect(connect().getStatus()).rejects.toMatchObject({
+      kind: "http",
+      statusCode: 500,
+    });
+
+    handler = (req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end("{not json");
+    };
+    await expect(connect().getStatus()).rejects.toMatchObject({
+      kind: "parse",
+    });
+  });
+
+  it("answers a Digest challenge", async () => {
+    const nonce = "dcd98b7102dd2f0e8b11d0f600bfb0c093";
+    handler = (req, res) => {
+      const header = req.headers.authorization;
+      if (!header) {
+        res.statusCode = 401;
+        res.setHeader(
+          "WWW-Authenticate",
+          `Digest realm="Printer API", nonce="${nonce}", qop="auth"`
+        );
+        res.end();
+        return;
+      }
+      const params = digestParams(header);
+      const ha1 = md5("maker:Printer API:secret");
+      const ha2 = md5(`GET:${req.url}`);
+      const expected = md5(
+        `${ha1}:${nonce}:${params.nc}:${params.cnonce}:auth:${ha2}`
+      );
+      if (params.response !== expected) {
+        sendJson(res, 401, { error: "Wrong response" });
+        return;
+      }
+      sendJson(res, 200, STATUS);
+    };
+    const api = connect({
+      apiKey: undefined,
+      auth: { type: "digest", username: "maker", password: "secret" },
+    });
+
+    await expect(api.getStatus()).resolves.toEqual(STATUS);
+    await expect(api.getStatus()).resolves.toEqual(STATUS);
+
+    // The challenge is answered once, then reused with the next nonce count
+    expect(requests).toHaveLength(3);
+    expect(digestParams(requests[1].headers.authorization as string).nc).toBe(
+      "00000001"
+    );
+    expect(digestParams(requests[2].headers.authorization as string).nc).toBe(
+      "00000002"
+    );
+  });
+
+  it("retries requests that got no answer", async () => {
+    let calls = 0;
+    handler = (req, res) => {
+      calls++;
+      if (calls < 3) {
+        req.socket.destroy();
+        return;
+      }
+      sendJson(res, 200, STATUS);
+    };
+
+    await expect(connect({ retries: 2 }).getStatus()).resolves.toEqual(STATUS);
+    expect(calls).toBe(3);
+  });
+
+  it("gives up after the timeout", async () => {
+    handler = () => {
+      // Never answered
+    };
+
+    await expect(
+      connect({ timeout: 0.1, retries: 0 }).getStatus()
+    ).rejects.toMatchObject({ kind: "timeout" });
+  });
+
+  it("fails when the connection is lost in the middle of the body", async () => {
+    handler = (req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      res.setHeader("Content-Length", "1000");
+      res.write('{"printer": {"state": "PRI');
+      setTimeout(() => req.socket.destroy(), 50);
+    };
+
+    await expect(
+      connect({ timeout: 2, retries: 1 }).getStatus()
+    ).rejects.toMatchObject({ kind: "network" });
+    expect(requests).toHaveLength(2);
+  });
+
+  it("doesn't repeat job commands", async () => {
+    handler = (req) => req.socket.destroy();
+
+    await expect(connect({ retries: 2 }).pauseJob(42)).rejects.toMatchObject({
+      kind: "network",
+    });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe("PUT");
+    expect(requests[0].url).toBe("/api/v1/job/42/pause");
+  });
+
+  it("stops asking an unreachable printer until the breaker delay passed", async () => {
+    handler = (req) => req.socket.destroy();
+    const api = connect({ retries: 0, failureThreshold: 2, maxBackoff: 60 });
+
+    await expect(api.getStatus()).rejects.toMatchObject({ kind: "network" });
+    expect(api.retryAfter()).toBe(0);
+    await expect(api.getStatus()).rejects.toMatchObject({ kind: "network" });
+
+    expect(api.retryAfter()).toBeGreaterThan(29000);
+    await expect(api.getStatus()).rejects.toThrow(/next attempt in/);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("encodes file paths", async () => {
+    handler = (req, res) => sendJson(res, 200, { name: "a b.bgcode" });
+
+    await connect().getFile("/usb/a b.bgcode");
+
+    expect(requests[0].url).toBe("/api/v1/files/usb/a%20b.bgcode");
+  });
+
+  it("fetches thumbnails and snapshots as bytes", async () => {
+    const image = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+    handler = (req, res) => {
+      if (req.url === "/api/v1/cameras/snap") {
+        res.statusCode = 204;
+        res.end();
+        return;
+      }
+      res.setHeader("Content-Type", "image/png");
+      res.end(image);
+    };
+    const api = connect();
+
+    await expect(
+      api.getThumbnail("/thumb/l/usb/benchy.bgcode")
+    ).resolves.toEqual(image);
+    expect(requests[0].headers.accept).toBe("image/*");
+    await expect(api.getSnapshot()).resolves.toBeNull();
+  });
+});
+
+describe("printerModel", () => {
+  it("strips the PrusaLink prefix", () => {
+    expect(
+      printerModel({
+        api: "2.0.0",
+        server: "2.1.2",
+        text: "PrusaLink",
+        original: "PrusaLink MK4",
+      })
+    ).toBe("MK4");
+    expect(
+      printerModel({ api: "2.0.0", server: "2.1.2", text: "PrusaLink" })
+    ).toBeNull();
+  });
+});
@@ -1,11 +1,34 @@
-import { get } from "http";
-import { URL } from "url";
-import { StatusResponse, Job } from "../types/api";
-import { PrusaLinkConfig } from "../types/config";
+import { createHash, randomBytes } from "crypto";
+import { readFileSync } from "fs";
+import {
+  Agent as HttpAgent,
+  IncomingHttpHeaders,
+  IncomingMessage,
+  request as httpRequest,
+} from "http";
+import { Agent as HttpsAgent, request as httpsRequest } from "https";
+import {
+  CameraInfo,
+  CamerasResponse,
+  FileInfo,
+  Job,
+  PrinterInfo,
+  StatusResponse,
+  VersionInfo,
+} from "../types/api";
+import { PrusaLinkAuthConfig, PrusaLinkConfig } from "../types/config";
+
+/**
+ * What went wrong with a request: no connection (network), no answer in
+ * time (timeout), credentials rejected (auth), an unexpected HTTP status
+ * (http) or a body that isn't valid JSON (parse).
+ */
+export type ApiErrorKind = "network" | "timeout" | "auth" | "http" | "parse";
 
 export class ApiError extends Error {
   constructor(
     message: string,
+    public kind: ApiErrorKind,
     public statusCode?: number,
     public responseBody?: string
   ) {
@@ -14,155 +37,519 @@ export class ApiError extends Error {
   }
 }
 
+type HttpMethod = "GET" | "PUT" | "DELETE";
+
+interface HttpResponse {
+  statusCode: number;
+  statusMessage: string;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+// Parameters of a WWW-Authenticate: Digest header
+interface DigestChallenge {
+  realm: string;
+  nonce: string;
+  qop?: string;
+  opaque?: string;
+  algorithm: string;
+}
+
+const DEFAULT_TIMEOUT = 10;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 1;
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_MAX_BACKOFF = 300;
+
+// First delay of the circuit breaker, doubled while the printer stays away
+const BREAKER_BASE_DELAY_MS = 30000;
+
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  MD5: "md5",
+  "MD5-SESS": "md5",
+  "SHA-256": "sha256",
+  "SHA-256-SESS": "sha256",
+};
+
+/**
+ * Returns the authentication of a PrusaLink connection, turning the apiKey
+ * shorthand into API key auth.
+ */
+export function resolveAuth(config: PrusaLinkConfig): PrusaLinkAuthConfig {
+  return config.auth || { type: "apikey", apiKey: config.apiKey as string };
+}
+
+/**
+ * Returns the base URL of a PrusaLink connection, for requests and logs.
+ */
+export function prusaLinkUrl(config: PrusaLinkConfig): string {
+  return `${config.protocol || "http"}://${config.host}:${config.port}`;
+}
+
+/**
+ * Returns the printer model from the version info ("PrusaLink MK4" -> "MK4"),
+ * or null if the firmware doesn't report it.
+ */
+export function printerModel(version: VersionInfo): string | null {
+  const model = (version.original || "").replace(/^PrusaLink\s*/i, "").trim();
+  return model || null;
+}
+
+// "/usb/a b.gcode" -> "/usb/a%20b.gcode"
+function encodePath(path: string): string {
+  return path
+    .split("/")
+    .map((segment) => encodeURIComponent(segment))
+    .join("/");
+}
+
+/**
+ * Parses the Digest challenge of a WWW-Authenticate header, or returns null
+ * if the server doesn't offer Digest auth.
+ */
+function parseDigestChallenge(header?: string): DigestChallenge | null {
+  const match = header ? /Digest\s+(.*)$/i.exec(header) : null;
+  if (!match) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const param of match[1].matchAll(/(\w+)=(?:"([^"]*)"|([^\s,]*))/g)) {
+    params[param[1].toLowerCase()] = param[2] ?? param[3];
+  }
+  if (params.realm === undefined || params.nonce === undefined) {
+    return null;
+  }
+  return {
+    realm: params.realm,
+    nonce: params.nonce,
+    qop: params.qop,
+    opaque: params.opaque,
+    algorithm: params.algorithm || "MD5",
+  };
+}
+
 export class PrusaLinkClient {
   private config: PrusaLinkConfig;
-  private baseUrl: string;
+  private auth: PrusaLinkAuthConfig;
+  private agent: HttpAgent;
+  private challenge: DigestChallenge | null = null;
+  private nonceCount = 0;
+  private consecutiveFailures = 0; // requests that failed after all retries
+  private openUntil = 0; // timestamp the circuit breaker allows a trial request
 
   constructor(config: PrusaLinkConfig) {
     this.config = config;
-    this.baseUrl = `http://${this.config.host}:${this.config.port}`;
+    this.auth = resolveAuth(config);
+
+    // Keep-alive reuses one connection across polls instead of a handshake
+    // (and with https a TLS negotiation) for every request
+    if (config.protocol !== "https") {
+      this.agent = new HttpAgent({ keepAlive: true });
+      return;
+    }
+    let ca: Buffer | undefined;
+    if (config.ca) {
+      try {
+        ca = readFileSync(config.ca);
+      } catch (error) {
+        throw new ApiError(
+          `Failed to read CA certificate '${config.ca}': ${
+            (error as Error).message
+          }`,
+          "network"
+        );
+      }
+    }
+    this.agent = new HttpsAgent({
+      keepAlive: true,
+      ca,
+      rejectUnauthorized: !config.insecure,
+    });
   }
 
   async getStatus(): Promise<StatusResponse> {
-    const url = new URL("/api/v1/status", this.baseUrl);
+    return this.getJson("/api/v1/status");
+  }
 
-    return new Promise((resolve, reject) => {
-      const options = {
-        hostname: url.hostname,
-        port: url.port,
-        path: url.pathname + url.search,
-        method: "GET",
-        headers: {
-          "X-Api-Key": this.config.apiKey,
-          "User-Agent": "prusa-timelapse/1.0.0",
-          Accept: "application/json",
-        },
-      };
+  async getJob(): Promise<Job | null> {
+    const response = await this.send("/api/v1/job");
+    if (response.statusCode === 204) {
+      // No content - no active job
+      return null;
+    }
+    if (response.statusCode !== 200) {
+      throw this.httpError(response);
+    }
+    return this.parseJson(response);
+  }
 
-      const req = get(options, (res) => {
-        let data = "";
+  async getInfo(): Promise<PrinterInfo> {
+    return this.getJson("/api/v1/info");
+  }
 
-        res.on("data", (chunk) => {
-          data += chunk;
-        });
+  async getVersion(): Promise<VersionInfo> {
+    return this.getJson("/api/version");
+  }
 
-        res.on("end", () => {
-          if (res.statusCode === 200) {
-            try {
-              const response = JSON.parse(data);
-              resolve(response);
-            } catch (error) {
-              reject(
-                new ApiError(
-                  `Failed to parse JSON response: ${(error as Error).message}`,
-                  res.statusCode,
-                  data
-                )
-              );
-            }
-          } else if (res.statusCode === 401) {
-            reject(
-              new ApiError(
-                "Authentication failed. Check your API key in the configuration.",
-                res.statusCode,
-                data
-              )
-            );
-          } else {
-            reject(
-              new ApiError(
-                `HTTP ${res.statusCode}: ${res.statusMessage}`,
-                res.statusCode,
-                data
-              )
-            );
-          }
-        });
-      });
+  async pauseJob(jobId: number): Promise<void> {
+    await this.control("PUT", `/api/v1/job/${jobId}/pause`);
+  }
 
-      req.on("error", (error) => {
-        reject(
-          new ApiError(`Request failed: ${error.message}`, undefined, undefined)
+  async resumeJob(jobId: number): Promise<void> {
+    await this.control("PUT", `/api/v1/job/${jobId}/resume`);
+  }
+
+  async stopJob(jobId: number): Promise<void> {
+    await this.control("DELETE", `/api/v1/job/${jobId}`);
+  }
+
+  /**
+   * Returns the metadata of a file.
+   *
+   * @param path - Path including the storage, e.g. "/usb/benchy.bgcode"
+   */
+  async getFile(path: string): Promise<FileInfo> {
+    return this.getJson(`/api/v1/files${encodePath(path)}`);
+  }
+
+  /**
+   * Downloads a file preview, such as the G-code thumbnail (PNG).
+   *
+   * @param ref - Path from the file's refs, e.g. refs.thumbnail
+   */
+  async getThumbnail(ref: string): Promise<Buffer> {
+    const response = await this.send(ref, "GET", "image/*");
+    if (response.statusCode !== 200) {
+      throw this.httpError(response);
+    }
+    return response.body;
+  }
+
+  async getCameras(): Promise<CameraInfo[]> {
+    const response: CamerasResponse = await this.getJson("/api/v1/cameras");
+    return response.camera_list || [];
+  }
+
+  /**
+   * Returns the latest snapshot (JPEG) of a camera, or of the default
+   * camera without an ID. Null if the camera hasn't taken one yet.
+   */
+  async getSnapshot(cameraId?: string): Promise<Buffer | null> {
+    const path = cameraId
+      ? `/api/v1/cameras/${encodeURIComponent(cameraId)}/snap`
+      : "/api/v1/cameras/snap";
+    const response = await this.send(path, "GET", "image/*");
+    if (response.statusCode === 204) {
+      return null;
+    }
+    if (response.statusCode !== 200) {
+      throw this.httpError(response);
+    }
+    return response.body;
+  }
+
+  /**
+   * Milliseconds until the circuit breaker lets requests through again, 0
+   * while the printer answers. Callers can skip polling until then.
+   */
+  retryAfter(): number {
+    return Math.max(0, this.openUntil - Date.now());
+  }
+
+  /**
+   * Closes the kept-alive connection.
+   */
+  close(): void {
+    this.agent.destroy();
+  }
+
+  private async getJson<T>(path: string): Promise<T> {
+    const response = await this.send(path);
+    if (response.statusCode !== 200) {
+      throw this.httpError(response);
+    }
+    return this.parseJson(response);
+  }
+
+  // Job commands answer 204 No Content
+  private async control(method: HttpMethod, path: string): Promise<void> {
+    const response = await this.send(path, method);
+    if (response.statusCode !== 204 && response.statusCode !== 200) {
+      throw this.httpError(response);
+    }
+  }
+
+  /**
+   * Sends a request, retrying network errors and timeouts of GET requests
+   * with exponential backoff (commands are not repeated, they might have
+   * been carried out). Requests failing that way in a row open the circuit
+   * breaker, which fails further requests at once until its delay has
+   * passed; the delay doubles with every failed trial up to maxBackoff.
+   */
+  private async send(
+    path: string,
+    method: HttpMethod = "GET",
+    accept = "application/json"
+  ): Promise<HttpResponse> {
+    const retryAfter = this.retryAfter();
+    if (retryAfter > 0) {
+      throw new ApiError(
+        `PrusaLink unreachable, next attempt in ${Math.ceil(
+          retryAfter / 1000
+        )}s`,
+        "network"
+      );
+    }
+
+    const retries =
+      method === "GET" ? this.config.retries ?? DEFAULT_RETRIES : 0;
+    const retryDelay = this.config.retryDelay ?? DEFAULT_RETRY_DELAY;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.authenticatedRequest(path, method, accept);
+        this.consecutiveFailures = 0;
+        this.openUntil = 0;
+        return response;
+      } catch (error) {
+        const retryable =
+          error instanceof ApiError &&
+          (error.kind === "network" || error.kind === "timeout");
+        if (!retryable) {
+          throw error;
+        }
+        if (attempt >= retries) {
+          this.recordFailure();
+          throw error;
+        }
+        await new Promise((resolve) =>
+          setTimeout(resolve, retryDelay * 2 ** attempt * 1000)
         );
-      });
+      }
+    }
+  }
 
-      req.setTimeout(10000, () => {
-        req.destroy();
-        reject(new ApiError("Request timeout"));
-      });
-    });
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    const threshold = this.config.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    if (threshold <= 0 || this.consecutiveFailures < threshold) {
+      return;
+    }
+    const maxBackoff = (this.config.maxBackoff ?? DEFAULT_MAX_BACKOFF) * 1000;
+    this.openUntil =
+      Date.now() +
+      Math.min(
+        BREAKER_BASE_DELAY_MS * 2 ** (this.consecutiveFailures - threshold),
+        maxBackoff
+      );
   }
 
-  async getJob(): Promise<Job | null> {
-    const url = new URL("/api/v1/job", this.baseUrl);
+  /**
+   * Sends a request with the configured auth. With Digest auth a 401
+   * carrying a new challenge (the first request, or a nonce that expired) is
+   * answered once.
+   */
+  private async authenticatedRequest(
+    path: string,
+    method: HttpMethod,
+    accept: string
+  ): Promise<HttpResponse> {
+    const response = await this.request(path, method, accept);
+    if (response.statusCode !== 401 || this.auth.type !== "digest") {
+      return response;
+    }
 
-    return new Promise((resolve, reject) => {
-      const options = {
-        hostname: url.hostname,
-        port: url.port,
-        path: url.pathname + url.search,
-        method: "GET",
-        headers: {
-          "X-Api-Key": this.config.apiKey,
-          "User-Agent": "prusa-timelapse/1.0.0",
-          Accept: "application/json",
-        },
-      };
+    const challenge = parseDigestChallenge(
+      response.headers["www-authenticate"]
+    );
+    if (!challenge) {
+      return response;
+    }
+    this.challenge = challenge;
+    this.nonceCount = 0;
+    return this.request(path, method, accept);
+  }
+
+  private request(
+    path: string,
+    method: HttpMethod,
+    accept: string
+  ): Promise<HttpResponse> {
+    const headers: Record<string, string> = {
+      "User-Agent": "prusa-timelapse/1.0.0",
+      Accept: accept,
+    };
+    if (this.auth.type === "apikey") {
+      headers["X-Api-Key"] = this.auth.apiKey;
+    } else if (this.challenge) {
+      headers.Authorization = this.digestAuthorization(method, path);
+    }
 
-      const req = get(options, (res) => {
-        let data = "";
+    const options = {
+      hostname: this.config.host,
+      port: this.config.port,
+      path,
+      method,
+      headers,
+      agent: this.agent,
+    };
+    const timeout = this.config.timeout ?? DEFAULT_TIMEOUT;
 
-        res.on("data", (chunk) => {
-          data += chunk;
+    return new Promise((resolve, reject) => {
+      const onResponse = (res: IncomingMessage) => {
+        const chunks: Buffer[] = [];
+
+        res.on("data", (chunk: Buffer) => {
+          chunks.push(chunk);
         });
 
         res.on("end", () => {
-          if (res.statusCode === 200) {
-            try {
-              const response = JSON.parse(data);
-              resolve(response);
-            } catch (error) {
-              reject(
-                new ApiError(
-                  `Failed to parse JSON response: ${(error as Error).message}`,
-                  res.statusCode,
-                  data
-                )
-              );
-            }
-          } else if (res.statusCode === 204) {
-            // No content - no active job
-            resolve(null);
-          } else if (res.statusCode === 401) {
-            reject(
-              new ApiError(
-                "Authentication failed. Check your API key in the configuration.",
-                res.statusCode,
-                data
-              )
-            );
-          } else {
-            reject(
-              new ApiError(
-                `HTTP ${res.statusCode}: ${res.statusMessage}`,
-                res.statusCode,
-                data
-              )
-            );
+          resolve({
+            statusCode: res.statusCode || 0,
+            statusMessage: res.statusMessage || "",
+            headers: res.headers,
+            body: Buffer.concat(chunks),
+          });
+        });
+
+        // A connection lost in the middle of the body ends neither the
+        // request nor the response, and the idle timer dies with the socket
+        const onAbort = () => {
+          reject(
+            new ApiError(
+              "Connection closed before the response was complete",
+              "network"
+            )
+          );
+        };
+        res.on("error", onAbort);
+        res.on("close", () => {
+          if (!res.complete) {
+            onAbort();
           }
         });
-      });
+      };
+
+      const req =
+        this.config.protocol === "https"
+          ? httpsRequest(options, onResponse)
+          : httpRequest(options, onResponse);
 
       req.on("error", (error) => {
-        reject(
-          new ApiError(`Request failed: ${error.message}`, undefined, undefined)
-        );
+        reject(new ApiError(`Request failed: ${error.message}`, "network"));
       });
 
-      req.setTimeout(10000, () => {
+      req.setTimeout(timeout * 1000, () => {
         req.destroy();
-        reject(new ApiError("Request timeout"));
+        reject(new ApiError(`Request timed out after ${timeout}s`, "timeout"));
       });
+
+      req.end();
     });
   }
+
+  /**
+   * Computes the Authorization header answering the current Digest
+   * challenge (RFC 7616), counting up the nonce count for each request.
+   */
+  private digestAuthorization(method: string, uri: string): string {
+    const challenge = this.challenge as DigestChallenge;
+    const { username, password } = this.auth as {
+      username: string;
+      password: string;
+    };
+    const algorithm = challenge.algorithm.toUpperCase();
+    const hashName = DIGEST_ALGORITHMS[algorithm];
+    if (!hashName) {
+      throw new ApiError(
+        `Digest auth failed: unsupported algorithm ${challenge.algorithm}`,
+        "auth"
+      );
+    }
+    const hash = (value: string) =>
+      createHash(hashName).update(value).digest("hex");
+
+    const qops = challenge.qop
+      ? challenge.qop.split(",").map((qop) => qop.trim())
+      : [];
+    if (qops.length > 0 && !qops.includes("auth")) {
+      throw new ApiError(
+        `Digest auth failed: unsupported qop ${challenge.qop}`,
+        "auth"
+      );
+    }
+
+    const cnonce = randomBytes(8).toString("hex");
+    const nc = (++this.nonceCount).toString(16).padStart(8, "0");
+    let ha1 = hash(`${username}:${challenge.realm}:${password}`);
+    if (algorithm.endsWith("-SESS")) {
+      ha1 = hash(`${ha1}:${challenge.nonce}:${cnonce}`);
+    }
+    const ha2 = hash(`${method}:${uri}`);
+    const response =
+      qops.length > 0
+        ? hash(`${ha1}:${challenge.nonce}:${nc}:${cnonce}:auth:${ha2}`)
+        : hash(`${ha1}:${challenge.nonce}:${ha2}`);
+
+    const params = [
+      `username="${username}"`,
+      `realm="${challenge.realm}"`,
+      `nonce="${challenge.nonce}"`,
+      `uri="${uri}"`,
+      `algorithm=${challenge.algorithm}`,
+      `response="${response}"`,
+    ];
+    if (qops.length > 0) {
+      params.push("qop=auth", `nc=${nc}`, `cnonce="${cnonce}"`);
+    }
+    if (challenge.opaque !== undefined) {
+      params.push(`opaque="${challenge.opaque}"`);
+    }
+    return `Digest ${params.join(", ")}`;
+  }
+
+  /**
+   * Builds the error for an unexpected status, naming the auth mode that
+   * was rejected on a 401.
+   */
+  private httpError(response: HttpResponse): ApiError {
+    const { statusCode } = response;
+    const body = response.body.toString();
+    if (statusCode !== 401) {
+      return new ApiError(
+        `HTTP ${statusCode}: ${response.statusMessage}`,
+        "http",
+        statusCode,
+        body
+      );
+    }
+
+    const offersDigest =
+      parseDigestChallenge(response.headers["www-authenticate"]) !== null;
+    let message: string;
+    if (this.auth.type === "apikey") {
+      message = offersDigest
+        ? "Authentication failed with the API key: the printer asks for Digest auth. Set prusaLink.auth to digest with the user name and password."
+        : "Authentication failed with the API key. Check prusaLink.apiKey against the key shown in the printer's PrusaLink settings.";
+    } else {
+      message = offersDigest
+        ? `Authentication failed with Digest auth as user "${this.auth.username}". Check prusaLink.auth.username and password against the printer's PrusaLink settings.`
+        : "Authentication failed with Digest auth: the printer sent no Digest challenge. It may expect an API key instead.";
+    }
+    return new ApiError(message, "auth", statusCode, body);
+  }
+
+  private parseJson<T>(response: HttpResponse): T {
+    const body = response.body.toString();
+    try {
+      return JSON.parse(body);
+    } catch (error) {
+      throw new ApiError(
+        `Failed to parse JSON response: ${(error as Error).message}`,
+        "parse",
+        response.statusCode,
+        body
+      );
+    }
+  }
 }
@@ -0,0 +1,284 @@
+import { rmSync, writeFileSync } from "fs";
+import { resolve } from "path";
+import { prusaLinkUrl } from "../api/client";
+import { configJsonSchema, resolvePrinters } from "../config";
+import { TimelapseLibrary } from "../library";
+import { Logger } from "../logger";
+import { generateOutputPath } from "../monitor";
+import { SessionStore } from "../session";
+import { TelemetryLog } from "../telemetry";
+import { sessionContext } from "../template";
+import {
+  AssembledVideo,
+  assembleVideo,
+  createFrameSource,
+  resolveSourceConfig,
+  TimelapseCapture,
+} from "../timelapse";
+import { AppConfig, PrinterConfig } from "../types/config";
+import {
+  findFrameSets,
+  FrameSet,
+  frameSetInfo,
+  isLiveFrameSet,
+  readFrameSet,
+} from "./frames";
+
+export type CommandOptions = Record<string, string | boolean>;
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+function printerLogger(config: AppConfig, printer: PrinterConfig): Logger {
+  return new Logger(config.printers !== undefined ? printer.name : undefined);
+}
+
+/**
+ * Returns the configured printers, or only the one named by `--printer`.
+ */
+export function selectPrinters(
+  config: AppConfig,
+  name: string | boolean | undefined
+): PrinterConfig[] {
+  const printers = resolvePrinters(config);
+  if (typeof name !== "string") {
+    return printers;
+  }
+
+  const printer = printers.find((candidate) => candidate.name === name);
+  if (!printer) {
+    throw new UsageError(
+      `Unknown printer '${name}' (configured: ${printers
+        .map((candidate) => candidate.name)
+        .join(", ")})`
+    );
+  }
+  return [printer];
+}
+
+/**
+ * Assembles a frame set the way the service would. Without an explicit
+ * output path the video gets the configured name and joins the library.
+ */
+async function assembleFrameSet(
+  printer: PrinterConfig,
+  frameSet: FrameSet,
+  logger: Logger,
+  outputPath?: string
+): Promise<AssembledVideo> {
+  const timelapse = { ...printer.timelapse, tempDirectory: frameSet.directory };
+  const info = frameSetInfo(printer, frameSet);
+  const video = await assembleVideo(
+    timelapse,
+    outputPath || generateOutputPath(printer, info),
+    sessionContext(printer.name, info),
+    {},
+    logger
+  );
+
+  if (!outputPath) {
+    try {
+      new TimelapseLibrary(printer.timelapse.outputDirectory).addVideo(
+        printer.name,
+        info,
+        video,
+        new TimelapseCapture(timelapse)
+      );
+    } catch (error) {
+      logger.warn(
+        `Failed to add timelapse to the library: ${(error as Error).message}`
+      );
+    }
+  }
+  return video;
+}
+
+function discardFrameSet(printer: PrinterConfig, frameSet: FrameSet): void {
+  if (frameSet.kind === "quarantined") {
+    rmSync(frameSet.directory, { recursive: true, force: true });
+    return;
+  }
+
+  new TimelapseCapture({
+    ...printer.timelapse,
+    tempDirectory: frameSet.directory,
+  }).clearFrames();
+  new SessionStore(frameSet.directory).clear();
+  new TelemetryLog(frameSet.directory).clear();
+}
+
+/**
+ * `assemble`: builds a video from the printer's temp directory or from
+ * `--frames`, leaving the frames in place.
+ */
+export async function assembleCommand(
+  config: AppConfig,
+  options: CommandOptions
+): Promise<number> {
+  const printers = selectPrinters(config, options.printer);
+  if (printers.length > 1) {
+    throw new UsageError(
+      `Several printers are configured, pick one with --printer (${printers
+        .map((printer) => printer.name)
+        .join(", ")})`
+    );
+  }
+  const printer = printers[0];
+  const logger = printerLogger(config, printer);
+
+  const directory = resolve(
+    typeof options.frames === "string"
+      ? options.frames
+      : printer.timelapse.tempDirectory
+  );
+  const frameSet = readFrameSet(printer, "pending", directory);
+  if (!frameSet) {
+    logger.error(`No frames found in ${directory}`);
+    return 1;
+  }
+
+  logger.log(`Assembling ${frameSet.frameCount} frames from ${directory}`);
+  await assembleFrameSet(
+    printer,
+    frameSet,
+    logger,
+    typeof options.out === "string" ? resolve(options.out) : undefined
+  );
+  return 0;
+}
+
+/**
+ * `recover`: assembles every quarantined frame set (and with
+ * `--include-temp` the frames left in the temp directory), deleting the
+ * frames after each successful assembly unless `--keep` is given. Frames a
+ * running service is still capturing are left alone unless `--force` is
+ * given.
+ */
+export async function recoverCommand(
+  config: AppConfig,
+  options: CommandOptions
+): Promise<number> {
+  let recovered = 0;
+  let failed = 0;
+
+  for (const printer of selectPrinters(config, options.printer)) {
+    const logger = printerLogger(config, printer);
+    const frameSets = findFrameSets(printer).filter(
+      (frameSet) =>
+        frameSet.kind === "quarantined" || options["include-temp"] === true
+    );
+
+    for (const frameSet of frameSets) {
+      if (options.force !== true && isLiveFrameSet(config, printer, frameSet)) {
+        logger.error(
+          `Skipping ${frameSet.directory}, a capture may still be running. Stop the service first, or use --force`
+        );
+        failed++;
+        continue;
+      }
+
+      logger.log(
+        `Recovering ${frameSet.frameCount} frames from ${frameSet.directory}`
+      );
+      try {
+        await assembleFrameSet(printer, frameSet, logger);
+        recovered++;
+      } catch (error) {
+        logger.error(
+          `Failed to assemble ${frameSet.directory}: ${
+            (error as Error).message
+          }`
+        );
+        failed++;
+        continue;
+      }
+
+      if (!options.keep) {
+        discardFrameSet(printer, frameSet);
+      }
+    }
+  }
+
+  if (recovered === 0 && failed === 0) {
+    console.log("No orphaned frame sets found");
+  } else {
+    console.log(`Recovered ${recovered} frame sets, ${failed} failed`);
+  }
+  return failed > 0 ? 1 : 0;
+}
+
+/**
+ * `list`: shows the frame sets waiting in each printer's temp directory.
+ */
+export async function listCommand(
+  config: AppConfig,
+  options: CommandOptions
+): Promise<number> {
+  for (const printer of selectPrinters(config, options.printer)) {
+    const logger = printerLogger(config, printer);
+    const frameSets = findFrameSets(printer);
+    if (frameSets.length === 0) {
+      logger.log(`No frame sets in ${printer.timelapse.tempDirectory}`);
+      continue;
+    }
+
+    for (const frameSet of frameSets) {
+      const manifest = frameSet.manifest;
+      const session = manifest
+        ? `job ${manifest.jobId ?? "unknown"}${
+            manifest.fileName ? ` (${manifest.fileName})` : ""
+          }, started ${manifest.startedAt}`
+        : "no session manifest";
+      logger.log(
+        `${frameSet.kind}: ${frameSet.directory} - ${frameSet.frameCount} frames, ${session}, last change ${frameSet.modifiedAt}`
+      );
+    }
+  }
+  return 0;
+}
+
+/**
+ * `validate-config`: the config was already loaded (and validated) by the
+ * time this runs, so it only summarizes it.
+ */
+export async function validateConfigCommand(
+  config: AppConfig
+): Promise<number> {
+  const printers = resolvePrinters(config);
+  console.log(
+    `Configuration is valid (${printers.length} printer${
+      printers.length === 1 ? "" : "s"
+    })`
+  );
+  for (const printer of printers) {
+    console.log(
+      `- ${printer.name}: PrusaLink ${prusaLinkUrl(
+        printer.prusaLink
+      )}, camera ${
+        createFrameSource(resolveSourceConfig(printer.timelapse)).description
+      }, output ${printer.timelapse.outputDirectory}`
+    );
+  }
+  return 0;
+}
+
+/**
+ * `schema`: writes the JSON Schema of the configuration file to `--out`, or
+ * to standard output.
+ */
+export async function schemaCommand(options: CommandOptions): Promise<number> {
+  const schema = `${JSON.stringify(configJsonSchema(), null, 2)}\n`;
+  if (typeof options.out !== "string") {
+    process.stdout.write(schema);
+    return 0;
+  }
+
+  const outputPath = resolve(options.out);
+  writeFileSync(outputPath, schema);
+  console.log(`Wrote ${outputPath}`);
+  return 0;
+}
@@ -0,0 +1,391 @@
+import { spawn } from "child_process";
+import {
+  closeSync,
+  mkdirSync,
+  mkdtempSync,
+  openSync,
+  readSync,
+  rmSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import {
+  ApiError,
+  PrusaLinkClient,
+  printerModel,
+  prusaLinkUrl,
+} from "../api/client";
+import { getFreeBytes } from "../storage";
+import {
+  createFrameSource,
+  requiredEncoders,
+  resolveSourceConfig,
+} from "../timelapse";
+import { AppConfig, PrinterConfig } from "../types/config";
+import { CommandOptions, selectPrinters } from "./commands";
+
+type CheckStatus = "pass" | "warn" | "fail";
+
+interface CheckResult {
+  status: CheckStatus;
+  name: string;
+  detail: string;
+}
+
+const FFMPEG_TIMEOUT_MS = 10000;
+
+// Free space to warn below when no diskSpace thresholds are configured
+const DEFAULT_WARN_FREE_BYTES = 1024 * 1024 * 1024;
+
+// Captured frames are written as JPEG by ffmpeg's mjpeg encoder
+const CAPTURE_ENCODER = "mjpeg";
+
+function formatBytes(bytes: number): string {
+  const units = ["B", "kB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+/**
+ * Runs ffmpeg with the given arguments and returns its standard output.
+ */
+function runFfmpeg(args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const ffmpegProcess = spawn("ffmpeg", ["-hide_banner", ...args], {
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+
+    let stdout = "";
+    if (ffmpegProcess.stdout) {
+      ffmpegProcess.stdout.on("data", (data) => {
+        stdout += data;
+      });
+    }
+
+    const timeout = setTimeout(() => {
+      ffmpegProcess.kill("SIGKILL");
+    }, FFMPEG_TIMEOUT_MS);
+
+    ffmpegProcess.on("error", (error) => {
+      clearTimeout(timeout);
+      reject(
+        (error as NodeJS.ErrnoException).code === "ENOENT"
+          ? new Error("ffmpeg not found on PATH")
+          : error
+      );
+    });
+
+    ffmpegProcess.on("exit", (code) => {
+      clearTimeout(timeout);
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`ffmpeg ${args.join(" ")} failed with code ${code}`));
+      }
+    });
+  });
+}
+
+async function checkFfmpeg(printers: PrinterConfig[]): Promise<CheckResult[]> {
+  let version: string;
+  try {
+    version = (await runFfmpeg(["-version"])).split("\n")[0].trim();
+  } catch (error) {
+    return [
+      { status: "fail", name: "ffmpeg", detail: (error as Error).message },
+    ];
+  }
+
+  const results: CheckResult[] = [
+    { status: "pass", name: "ffmpeg", detail: version },
+  ];
+
+  const needed = new Set([CAPTURE_ENCODER]);
+  for (const printer of printers) {
+    requiredEncoders(printer.timelapse).forEach((encoder) =>
+      needed.add(encoder)
+    );
+  }
+
+  try {
+    // Encoder lines look like " V....D libx264   libx264 H.264 / AVC ..."
+    const available = new Set(
+      Array.from(
+        (await runFfmpeg(["-encoders"])).matchAll(/^ [VAS][A-Z.]{5} (\S+)/gm),
+        (match) => match[1]
+      )
+    );
+    const missing = [...needed].filter((encoder) => !available.has(encoder));
+    results.push(
+      missing.length === 0
+        ? {
+            status: "pass",
+            name: "ffmpeg encoders",
+            detail: [...needed].join(", "),
+          }
+        : {
+            status: "fail",
+            name: "ffmpeg encoders",
+            detail:
+              `missing ${missing.join(", ")}. Use an ffmpeg build ` +
+              "with them, or another encoding.codec",
+          }
+    );
+  } catch (error) {
+    results.push({
+      status: "fail",
+      name: "ffmpeg encoders",
+      detail: (error as Error).message,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Turns a PrusaLink error into a hint at what is misconfigured.
+ */
+function explainApiError(error: Error, printer: PrinterConfig): string {
+  const { host, port } = printer.prusaLink;
+  if (!(error instanceof ApiError)) {
+    return error.message;
+  }
+  if (error.kind === "auth") {
+    // The client's message names the rejected auth mode
+    return `HTTP 401: ${error.message}`;
+  }
+  if (/certificate/i.test(error.message)) {
+    return `${error.message}. Set prusaLink.ca to the CA that signed the printer's certificate, or prusaLink.insecure to skip the check`;
+  }
+  if (error.kind === "timeout") {
+    return `no answer from ${host}:${port}: ${error.message}. Check prusaLink.host and that the printer is on the network`;
+  }
+  if (error.message.includes("ECONNREFUSED")) {
+    return `connection to ${host}:${port} refused. Check prusaLink.port and that PrusaLink is enabled on the printer`;
+  }
+  if (
+    error.message.includes("ENOTFOUND") ||
+    error.message.includes("EAI_AGAIN")
+  ) {
+    return `host ${host} not found. Check prusaLink.host`;
+  }
+  if (
+    error.message.includes("EHOSTUNREACH") ||
+    error.message.includes("ENETUNREACH")
+  ) {
+    return `host ${host} is unreachable. Check that it is on the same network`;
+  }
+  return error.message;
+}
+
+async function checkPrusaLink(printer: PrinterConfig): Promise<CheckResult> {
+  const name = `PrusaLink ${prusaLinkUrl(printer.prusaLink)}`;
+  let client: PrusaLinkClient | null = null;
+
+  try {
+    // Report the first failure instead of waiting out the retries
+    client = new PrusaLinkClient({ ...printer.prusaLink, retries: 0 });
+    const status = await client.getStatus();
+    const job = await client.getJob();
+    const version = await client.getVersion();
+    const model = printerModel(version);
+    return {
+      status: "pass",
+      name,
+      detail: `${model || "printer"} ${status.printer.state}, ${
+        job ? `job ${job.id}` : "no active job"
+      }${version.firmware ? `, firmware ${version.firmware}` : ""}`,
+    };
+  } catch (error) {
+    return {
+      status: "fail",
+      name,
+      detail: explainApiError(error as Error, printer),
+    };
+  } finally {
+    client?.close();
+  }
+}
+
+/**
+ * Reads the width and height from a JPEG's start of frame segment, or
+ * returns null if the file isn't a JPEG.
+ */
+function jpegSize(path: string): { width: number; height: number } | null {
+  const fd = openSync(path, "r");
+  try {
+    const header = Buffer.alloc(9);
+    let offset = 2;
+    if (
+      readSync(fd, header, 0, 2, 0) < 2 ||
+      header.readUInt16BE(0) !== 0xffd8
+    ) {
+      return null;
+    }
+
+    while (readSync(fd, header, 0, 9, offset) === 9) {
+      if (header[0] !== 0xff) {
+        return null;
+      }
+      const marker = header[1];
+      // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+      if (
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        ![0xc4, 0xc8, 0xcc].includes(marker)
+      ) {
+        return {
+          height: header.readUInt16BE(5),
+          width: header.readUInt16BE(7),
+        };
+      }
+      offset += 2 + header.readUInt16BE(2);
+    }
+    return null;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+async function checkCamera(printer: PrinterConfig): Promise<CheckResult> {
+  const source = createFrameSource(resolveSourceConfig(printer.timelapse));
+  const directory = mkdtempSync(join(tmpdir(), "prusa-timelapse-doctor-"));
+  const framePath = join(directory, "frame.jpg");
+
+  try {
+    const startedAt = Date.now();
+    await source.grabFrame(framePath);
+    const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+    const size = jpegSize(framePath);
+
+    if (!size) {
+      return {
+        status: "warn",
+        name: source.description,
+        detail: `grabbed a frame in ${seconds}s, but it isn't a JPEG image`,
+      };
+    }
+    return {
+      status: "pass",
+      name: source.description,
+      detail: `grabbed a ${size.width}x${size.height} frame in ${seconds}s`,
+    };
+  } catch (error) {
+    return {
+      status: "fail",
+      name: source.description,
+      detail: (error as Error).message,
+    };
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Checks that a directory can be created and written to, and how much space
+ * is free on its volume.
+ */
+function checkDirectory(
+  printer: PrinterConfig,
+  label: string,
+  path: string
+): CheckResult {
+  const directory = resolve(path);
+  const name = `${label} ${directory}`;
+
+  try {
+    mkdirSync(directory, { recursive: true });
+    const probePath = join(directory, `.doctor-${process.pid}`);
+    writeFileSync(probePath, "");
+    unlinkSync(probePath);
+  } catch (error) {
+    return {
+      status: "fail",
+      name,
+      detail: `not writable: ${(error as Error).message}`,
+    };
+  }
+
+  const freeBytes = getFreeBytes(directory);
+  const diskSpace = printer.timelapse.diskSpace;
+  const free = `${formatBytes(freeBytes)} free`;
+
+  if (diskSpace && freeBytes < diskSpace.minFreeBytes) {
+    return {
+      status: "fail",
+      name,
+      detail: `${free}, below diskSpace.minFreeBytes (${formatBytes(
+        diskSpace.minFreeBytes
+      )})`,
+    };
+  }
+  const warnFreeBytes = diskSpace
+    ? diskSpace.warnFreeBytes ?? diskSpace.minFreeBytes * 2
+    : DEFAULT_WARN_FREE_BYTES;
+  if (freeBytes < warnFreeBytes) {
+    return {
+      status: "warn",
+      name,
+      detail: `writable, only ${free} (${formatBytes(warnFreeBytes)} advised)`,
+    };
+  }
+  return { status: "pass", name, detail: `writable, ${free}` };
+}
+
+function printResults(results: CheckResult[]): void {
+  for (const result of results) {
+    console.log(
+      `  [${result.status.toUpperCase()}] ${result.name}: ${result.detail}`
+    );
+  }
+}
+
+/**
+ * `doctor`: checks ffmpeg, PrusaLink, the camera and the directories of
+ * each printer and prints a pass/fail report. Exits non-zero if any check
+ * fails, so it can serve as a container healthcheck.
+ */
+export async function doctorCommand(
+  config: AppConfig,
+  options: CommandOptions
+): Promise<number> {
+  const printers = selectPrinters(config, options.printer);
+  const results: CheckResult[] = [];
+
+  console.log("ffmpeg");
+  const ffmpegResults = await checkFfmpeg(printers);
+  printResults(ffmpegResults);
+  results.push(...ffmpegResults);
+
+  for (const printer of printers) {
+    console.log(`Printer ${printer.name}`);
+    const printerResults = [
+      await checkPrusaLink(printer),
+      await checkCamera(printer),
+      checkDirectory(printer, "tempDirectory", printer.timelapse.tempDirectory),
+      checkDirectory(
+        printer,
+        "outputDirectory",
+        printer.timelapse.outputDirectory
+      ),
+    ];
+    printResults(printerResults);
+    results.push(...printerResults);
+  }
+
+  const failed = results.filter((result) => result.status === "fail").length;
+  const warned = results.filter((result) => result.status === "warn").length;
+  console.log(
+    failed === 0
+      ? `All checks passed${warned > 0 ? ` (${warned} warnings)` : ""}`
+      : `${failed} of ${results.length} checks failed`
+  );
+  return failed > 0 ? 1 : 0;
+}
@@ -0,0 +1,89 @@
+import { FrameSet, isLiveFrameSet } from "./frames";
+import { SessionManifest } from "../session";
+import { AppConfig, PrinterConfig } from "../types/config";
+
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+
+function minutesAgo(minutes: number): string {
+  return new Date(NOW - minutes * 60 * 1000).toISOString();
+}
+
+describe("isLiveFrameSet", () => {
+  let config: AppConfig;
+  let printer: PrinterConfig;
+
+  function frameSet(
+    manifestUpdated: number | null,
+    framesModified: number,
+    kind: FrameSet["kind"] = "pending"
+  ): FrameSet {
+    const manifest: SessionManifest | null =
+      manifestUpdated === null
+        ? null
+        : {
+            version: 1,
+            jobId: 7,
+            fileName: "part7.gcode",
+            startedAt: minutesAgo(120),
+            updatedAt: minutesAgo(manifestUpdated),
+            firstFrame: 1,
+            lastFrame: 10,
+            suspended: false,
+            watchdogExpiry: null,
+            configHash: "0123456789abcdef",
+          };
+    return {
+      printer: "default",
+      kind,
+      directory: "/tmp/frames",
+      frameCount: 10,
+      lastFrame: "img_00010.jpg",
+      manifest,
+      modifiedAt: minutesAgo(framesModified),
+    };
+  }
+
+  beforeEach(() => {
+    printer = {
+      name: "default",
+      prusaLink: { host: "printer.local", port: 80, apiKey: "key" },
+      timelapse: {
+        rtspUrl: "rtsp://camera.local/live",
+        captureInterval: 30,
+        outputFramerate: 30,
+        outputDirectory: "/tmp/videos",
+        tempDirectory: "/tmp/frames",
+      },
+    };
+    config = {
+      prusaLink: printer.prusaLink,
+      timelapse: printer.timelapse,
+      notification: { channels: [] },
+      pollInterval: 10,
+      watchdogTimeout: 0,
+    };
+  });
+
+  it("takes a recently written session for a running capture", () => {
+    expect(isLiveFrameSet(config, printer, frameSet(1, 30), NOW)).toBe(true);
+    // Polls failing while the printer is away, frames still coming in
+    expect(isLiveFrameSet(config, printer, frameSet(30, 1), NOW)).toBe(true);
+  });
+
+  it("takes a session left alone for a while as left behind", () => {
+    expect(isLiveFrameSet(config, printer, frameSet(30, 30), NOW)).toBe(false);
+  });
+
+  it("waits longer with long intervals", () => {
+    printer.timelapse.captureInterval = 1200;
+
+    expect(isLiveFrameSet(config, printer, frameSet(30, 30), NOW)).toBe(true);
+  });
+
+  it("ignores frames without a manifest and quarantined frames", () => {
+    expect(isLiveFrameSet(config, printer, frameSet(null, 1), NOW)).toBe(false);
+    expect(
+      isLiveFrameSet(config, printer, frameSet(1, 1, "quarantined"), NOW)
+    ).toBe(false);
+  });
+});
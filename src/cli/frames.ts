@@ -0,0 +1,132 @@
+import { existsSync, readdirSync, statSync } from "fs";
+import { join, resolve } from "path";
+import { QUARANTINE_DIRECTORY } from "../monitor";
+import { SessionManifest, SessionStore } from "../session";
+import { TimelapseCapture } from "../timelapse";
+import { AppConfig, PrinterConfig } from "../types/config";
+import { SessionInfo } from "../types/notification";
+
+// Shortest time without a manifest write or a new frame after which a
+// capture is taken to be left behind by a stopped service
+const STALE_SESSION_MS = 10 * 60 * 1000;
+
+// Frames of one capture session waiting to be assembled
+export interface FrameSet {
+  printer: string;
+  kind: "pending" | "quarantined"; // in the temp directory itself, or moved aside
+  directory: string;
+  frameCount: number;
+  lastFrame: string | null;
+  manifest: SessionManifest | null;
+  modifiedAt: string; // ISO timestamp the directory last changed
+}
+
+/**
+ * Reads the frames in a directory as a frame set, or returns null if there
+ * are none.
+ */
+export function readFrameSet(
+  printer: PrinterConfig,
+  kind: FrameSet["kind"],
+  directory: string
+): FrameSet | null {
+  const capture = new TimelapseCapture({
+    ...printer.timelapse,
+    tempDirectory: directory,
+  });
+  const { count, lastFrame } = capture.getFrameInfo();
+  if (count === 0) {
+    return null;
+  }
+
+  return {
+    printer: printer.name,
+    kind,
+    directory,
+    frameCount: count,
+    lastFrame,
+    manifest: new SessionStore(directory).read(),
+    modifiedAt: statSync(directory).mtime.toISOString(),
+  };
+}
+
+/**
+ * Finds the frame sets of a printer: frames left in its temp directory
+ * (a running capture, or a session whose assembly failed) and the frame sets
+ * quarantined below it.
+ */
+export function findFrameSets(printer: PrinterConfig): FrameSet[] {
+  const tempDir = resolve(printer.timelapse.tempDirectory);
+  const frameSets: FrameSet[] = [];
+
+  if (existsSync(tempDir)) {
+    const pending = readFrameSet(printer, "pending", tempDir);
+    if (pending) {
+      frameSets.push(pending);
+    }
+  }
+
+  const quarantineDir = join(tempDir, QUARANTINE_DIRECTORY);
+  if (existsSync(quarantineDir)) {
+    for (const name of readdirSync(quarantineDir).sort()) {
+      const directory = join(quarantineDir, name);
+      if (!statSync(directory).isDirectory()) {
+        continue;
+      }
+      const quarantined = readFrameSet(printer, "quarantined", directory);
+      if (quarantined) {
+        frameSets.push(quarantined);
+      }
+    }
+  }
+
+  return frameSets;
+}
+
+/**
+ * Describes a frame set as a session, as far as its manifest tells.
+ */
+export function frameSetInfo(
+  printer: PrinterConfig,
+  frameSet: FrameSet
+): SessionInfo {
+  const manifest = frameSet.manifest;
+  return {
+    jobId: manifest ? manifest.jobId : null,
+    fileName: manifest ? manifest.fileName : null,
+    printerHost: printer.prusaLink.host,
+    startedAt: manifest ? manifest.startedAt : null,
+    finishedAt: manifest ? manifest.updatedAt : frameSet.modifiedAt,
+    printDuration: null,
+    frameCount: frameSet.frameCount,
+    finalState: null,
+  };
+}
+
+/**
+ * Whether the frames in a temp directory look like the capture of a running
+ * service: a session manifest that the service rewrites on every poll, or
+ * frames, changed recently. Long poll and capture intervals stretch what
+ * counts as recent.
+ */
+export function isLiveFrameSet(
+  config: AppConfig,
+  printer: PrinterConfig,
+  frameSet: FrameSet,
+  now: number = Date.now()
+): boolean {
+  if (frameSet.kind !== "pending" || !frameSet.manifest) {
+    return false;
+  }
+
+  const staleAfter = Math.max(
+    STALE_SESSION_MS,
+    3 * config.pollInterval * 1000,
+    3 * printer.timelapse.captureInterval * 1000
+  );
+  const lastChange = Math.max(
+    Date.parse(frameSet.manifest.updatedAt),
+    Date.parse(frameSet.modifiedAt)
+  );
+  return now - lastChange < staleAfter;
+}
@@ -0,0 +1,167 @@
+import { resolve } from "path";
+import { CommandOptions, UsageError } from "./commands";
+
+export {
+  assembleCommand,
+  CommandOptions,
+  listCommand,
+  recoverCommand,
+  schemaCommand,
+  UsageError,
+  validateConfigCommand,
+} from "./commands";
+export { doctorCommand } from "./doctor";
+export { findFrameSets, FrameSet } from "./frames";
+export { simulateCommand } from "./simulate";
+
+export type Command =
+  | "run"
+  | "assemble"
+  | "recover"
+  | "list"
+  | "validate-config"
+  | "doctor"
+  | "schema"
+  | "simulate";
+
+const COMMANDS: Command[] = [
+  "run",
+  "assemble",
+  "recover",
+  "list",
+  "validate-config",
+  "doctor",
+  "schema",
+  "simulate",
+];
+
+// Commands that run without a config file
+const STANDALONE_COMMANDS: Command[] = ["schema", "simulate"];
+
+// Options taking a value, and the commands accepting each option
+const VALUE_OPTIONS: Record<string, Command[]> = {
+  printer: ["assemble", "recover", "list", "doctor"],
+  frames: ["assemble"],
+  out: ["assemble", "schema"],
+  port: ["simulate"],
+  "time-scale": ["simulate"],
+};
+const FLAG_OPTIONS: Record<string, Command[]> = {
+  "include-temp": ["recover"],
+  keep: ["recover"],
+  force: ["recover"],
+};
+
+export const USAGE = `Usage: prusa-timelapse [run] <config-file>
+       prusa-timelapse assemble <config-file> [--printer <name>] [--frames <dir>] [--out <file>]
+       prusa-timelapse recover <config-file> [--printer <name>] [--include-temp] [--keep] [--force]
+       prusa-timelapse list <config-file> [--printer <name>]
+       prusa-timelapse validate-config <config-file>
+       prusa-timelapse doctor <config-file> [--printer <name>]
+       prusa-timelapse schema [--out <file>]
+       prusa-timelapse simulate <scenario-file> [--port <port>] [--time-scale <factor>]
+
+Commands:
+  run              Start the monitoring service (default)
+  assemble         Assemble a frame set into a video with the configured encoding
+  recover          Assemble every quarantined frame set, then delete its frames
+  list             Show the frame sets waiting in the temp directories
+  validate-config  Check the configuration file and exit
+  doctor           Check ffmpeg, PrusaLink, the camera and the directories
+  schema           Write the JSON Schema of the configuration file
+  simulate         Serve a fake PrusaLink that plays a scenario file
+
+Every command accepts --set <path>=<value> (repeatable) to override a
+configuration value, e.g. --set timelapse.captureInterval=20`;
+
+export interface CommandLine {
+  command: Command;
+  configPath: string;
+  options: CommandOptions;
+  overrides: string[]; // --set path=value, applied on top of the config file
+  help: boolean;
+}
+
+/**
+ * Parses the arguments after the script name. Without a command the first
+ * argument is the config file and the service is started, as before
+ * subcommands existed.
+ */
+export function parseCommandLine(args: string[]): CommandLine {
+  const rest = [...args];
+  let command: Command = "run";
+  if (COMMANDS.includes(rest[0] as Command)) {
+    command = rest.shift() as Command;
+  }
+
+  const options: CommandOptions = {};
+  const overrides: string[] = [];
+  const positional: string[] = [];
+  let help = false;
+
+  while (rest.length > 0) {
+    const arg = rest.shift() as string;
+    if (arg === "--help" || arg === "-h") {
+      help = true;
+      continue;
+    }
+    if (!arg.startsWith("--")) {
+      positional.push(arg);
+      continue;
+    }
+
+    const name = arg.slice(2);
+    if (name === "set") {
+      const value = rest.shift();
+      if (value === undefined || !value.includes("=")) {
+        throw new UsageError("Option --set needs a path=value argument");
+      }
+      overrides.push(value);
+    } else if (VALUE_OPTIONS[name]?.includes(command)) {
+      const value = rest.shift();
+      if (value === undefined || value.startsWith("--")) {
+        throw new UsageError(`Option --${name} needs a value`);
+      }
+      options[name] = value;
+    } else if (FLAG_OPTIONS[name]?.includes(command)) {
+      options[name] = true;
+    } else {
+      throw new UsageError(`Unknown option for ${command}: ${arg}`);
+    }
+  }
+
+  if (help) {
+    return { command, configPath: "", options, overrides, help };
+  }
+  if (command === "simulate") {
+    // The scenario file takes the place of the config file
+    if (positional.length === 0) {
+      throw new UsageError("Missing scenario file");
+    }
+    if (positional.length > 1) {
+      throw new UsageError(`Unexpected argument: ${positional[1]}`);
+    }
+    options.scenario = resolve(positional[0]);
+    return { command, configPath: "", options, overrides, help };
+  }
+  if (STANDALONE_COMMANDS.includes(command)) {
+    if (positional.length > 0) {
+      throw new UsageError(`Unexpected argument: ${positional[0]}`);
+    }
+    return { command, configPath: "", options, overrides, help };
+  }
+  if (positional.length === 0) {
+    throw new UsageError("Missing config file");
+  }
+  if (positional.length > 1) {
+    throw new UsageError(`Unexpected argument: ${positional[1]}`);
+  }
+
+  return {
+    command,
+    configPath: resolve(positional[0]),
+    options,
+    overrides,
+    help,
+  };
+}
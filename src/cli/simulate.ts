@@ -0,0 +1,58 @@
+import { loadScenario, PrusaLinkSimulator, SimulatorError } from "../simulator";
+import { CommandOptions, UsageError } from "./commands";
+
+function numberOption(
+  options: CommandOptions,
+  name: string,
+  valid: (value: number) => boolean
+): number | undefined {
+  const raw = options[name];
+  if (typeof raw !== "string") {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || !valid(value)) {
+    throw new UsageError(`Invalid value for --${name}: ${raw}`);
+  }
+  return value;
+}
+
+/**
+ * Serves a fake PrusaLink playing the scenario file until interrupted.
+ * Point a configuration's prusaLink at it to run print cycles without a
+ * printer.
+ */
+export async function simulateCommand(
+  options: CommandOptions
+): Promise<number> {
+  const port = numberOption(
+    options,
+    "port",
+    (value) => Number.isInteger(value) && value >= 0 && value <= 65535
+  );
+  const timeScale = numberOption(options, "time-scale", (value) => value > 0);
+
+  let simulator: PrusaLinkSimulator;
+  try {
+    const scenario = loadScenario(options.scenario as string);
+    simulator = new PrusaLinkSimulator(scenario, { port, timeScale });
+    if (scenario.description) {
+      console.log(scenario.description);
+    }
+    await simulator.start();
+  } catch (error) {
+    if (error instanceof SimulatorError) {
+      console.error(`Scenario error: ${error.message}`);
+      return 1;
+    }
+    throw error;
+  }
+
+  console.log("Press Ctrl+C to stop.");
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+  await simulator.stop();
+  return 0;
+}
@@ -0,0 +1,216 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadConfig, validateConfig } from ".";
+
+function baseConfig(): Record<string, any> {
+  return {
+    prusaLink: { host: "192.168.1.100", apiKey: "key" },
+    timelapse: {
+      rtspUrl: "rtsp://192.168.1.100:554/live",
+      captureInterval: 30,
+      outputFramerate: 30,
+      outputDirectory: "./timelapses",
+      tempDirectory: "./temp",
+    },
+    notification: { command: "true" },
+  };
+}
+
+describe("validateConfig", () => {
+  it("accepts a minimal configuration and fills in the defaults", () => {
+    const { config, errors, warnings } = validateConfig(baseConfig());
+
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([]);
+    expect(config.pollInterval).toBeGreaterThan(0);
+    expect(config.prusaLink?.protocol).toBe("http");
+    expect(config.prusaLink?.port).toBe(80);
+  });
+
+  it("takes the default port from the protocol", () => {
+    const input = baseConfig();
+    input.prusaLink = {
+      host: "printer.local",
+      apiKey: "key",
+      protocol: "https",
+    };
+
+    const { config, errors } = validateConfig(input);
+
+    expect(errors).toEqual([]);
+    expect(config.prusaLink?.port).toBe(443);
+  });
+
+  it("rejects input that is not an object", () => {
+    expect(validateConfig(null).errors).toEqual(["Configuration is empty"]);
+    expect(validateConfig([1]).errors).toEqual([
+      "Configuration must be a JSON object",
+    ]);
+  });
+
+  it("collects every problem instead of stopping at the first", () => {
+    const input = baseConfig();
+    input.prusaLink.host = "http://192.168.1.100";
+    input.timelapse.captureInterval = 0;
+    delete input.notification.command;
+
+    const { errors } = validateConfig(input);
+
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining("prusaLink.host must be a host name"),
+        expect.stringContaining("timelapse.captureInterval"),
+        "notification needs a command or channels",
+      ])
+    );
+    expect(errors).toHaveLength(3);
+  });
+
+  it("needs exactly one way to authenticate", () => {
+    const missing = baseConfig();
+    delete missing.prusaLink.apiKey;
+    expect(validateConfig(missing).errors).toEqual([
+      "prusaLink.apiKey or prusaLink.auth is required",
+    ]);
+
+    const both = baseConfig();
+    both.prusaLink.auth = {
+      type: "digest",
+      username: "maker",
+      password: "secret",
+    };
+    expect(validateConfig(both).errors).toEqual([
+      "prusaLink.apiKey and prusaLink.auth are both set, use only one",
+    ]);
+  });
+
+  it("only allows certificate options with https", () => {
+    const input = baseConfig();
+    input.prusaLink.ca = "/etc/ssl/printer.pem";
+    input.prusaLink.insecure = true;
+
+    expect(validateConfig(input).errors).toEqual([
+      'prusaLink.ca needs protocol "https"',
+      'prusaLink.insecure needs protocol "https"',
+    ]);
+  });
+
+  it("needs a camera", () => {
+    const input = baseConfig();
+    delete input.timelapse.rtspUrl;
+
+    expect(validateConfig(input).errors).toEqual([
+      "timelapse.rtspUrl is required unless timelapse.source is set",
+    ]);
+
+    input.timelapse.source = { type: "testsrc" };
+    expect(validateConfig(input).errors).toEqual([]);
+  });
+
+  it("checks crf against the codec's range", () => {
+    const input = baseConfig();
+    input.timelapse.encoding = {
+      codec: "vp9",
+      container: "webm",
+      crf: 60,
+      variants: [
+        { suffix: "_h264", codec: "x264", container: "mp4" },
+        { suffix: "_av1", codec: "av1-svt" },
+      ],
+    };
+    expect(validateConfig(input).errors).toEqual([
+      "timelapse.encoding.variants[0].crf must be <= 51 with codec x264",
+    ]);
+
+    input.timelapse.encoding = { codec: "x265", crf: 52 };
+    expect(validateConfig(input).errors).toEqual([
+      "timelapse.encoding.crf must be <= 51 with codec x265",
+    ]);
+  });
+
+  it("warns about unknown keys and suggests the likely one", () => {
+    const input = baseConfig();
+    input.timelapse.captureIntervall = 10;
+
+    const { errors, warnings } = validateConfig(input);
+
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([
+      "timelapse.captureIntervall is not a known setting and is ignored (did you mean captureInterval?)",
+    ]);
+  });
+
+  it("keeps printers apart", () => {
+    const input = baseConfig();
+    delete input.prusaLink;
+    input.printers = [
+      { name: "mk4", prusaLink: { host: "10.0.0.1", apiKey: "a" } },
+      { name: "mk4", prusaLink: { host: "10.0.0.2", apiKey: "b" } },
+    ];
+
+    expect(validateConfig(input).errors).toEqual([
+      'printers[1].name "mk4" is used twice',
+      "printers[1].timelapse.tempDirectory is already used by another printer",
+    ]);
+  });
+});
+
+describe("loadConfig", () => {
+  let directory: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "config-test-"));
+    configPath = join(directory, "config.json");
+    const input = baseConfig();
+    delete input.prusaLink;
+    input.printers = [
+      {
+        name: "mk4",
+        prusaLink: {
+          host: "192.168.1.100",
+          auth: { type: "digest", username: "maker", password: "secret" },
+        },
+      },
+    ];
+    writeFileSync(configPath, JSON.stringify(input));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  function password(config: ReturnType<typeof loadConfig>): unknown {
+    const auth = config.printers?.[0].prusaLink.auth;
+    return auth?.type === "digest" ? auth.password : undefined;
+  }
+
+  it("keeps numeric environment values of text settings as strings", () => {
+    const config = loadConfig(configPath, [], {
+      PRUSA_TIMELAPSE_PRINTERS__0__PRUSA_LINK__AUTH__PASSWORD: "123456",
+      PRUSA_TIMELAPSE_TIMELAPSE__CAPTURE_INTERVAL: "20",
+    });
+
+    expect(password(config)).toBe("123456");
+    expect(config.timelapse.captureInterval).toBe(20);
+  });
+
+  it("keeps --set values of text settings as strings", () => {
+    const config = loadConfig(configPath, [
+      "printers[0].prusaLink.auth.password=true",
+      "timelapse.pauseOnAttention=true",
+    ]);
+
+    expect(password(config)).toBe("true");
+    expect(config.timelapse.pauseOnAttention).toBe(true);
+  });
+
+  it("still takes quoted strings", () => {
+    const config = loadConfig(configPath, [
+      'printers[0].prusaLink.auth.password="null"',
+    ]);
+
+    expect(password(config)).toBe("null");
+  });
+});
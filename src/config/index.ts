@@ -1,104 +1,335 @@
 import { readFileSync } from "fs";
-import { AppConfig } from "../types/config";
+import { resolve } from "path";
+import { AppConfig, PrinterConfig, TimelapseConfig } from "../types/config";
+import { applyEnvironment, applyOverrides } from "./layers";
+import { isObject, toJsonSchema, validateSchema } from "./schema";
+import {
+  CONFIG_SCHEMA,
+  DEFAULTS,
+  PRUSA_LINK_DEFAULTS,
+  PRUSA_LINK_PORTS,
+  TIMELAPSE_DEFAULTS,
+} from "./settings";
+
+// WebM only holds VP8/VP9/AV1
+const WEBM_CODECS = ["vp9", "av1-aom", "av1-svt"];
+
+// Highest crf each encoder takes; the schema allows the largest of them
+const MAX_CRF: Record<string, number> = {
+  x264: 51,
+  x265: 51,
+  vp9: 63,
+  "av1-aom": 63,
+  "av1-svt": 63,
+};
 
 export class ConfigError extends Error {
-  constructor(message: string) {
+  constructor(message: string, public problems: string[] = [message]) {
     super(message);
     this.name = "ConfigError";
   }
 }
 
-function validateConfig(config: any): AppConfig {
-  if (!config) {
-    throw new ConfigError("Configuration is empty");
+/**
+ * Checks the encoding settings that depend on each other. Variants inherit
+ * unset settings from the main encoding, so they are checked merged, but only
+ * for the settings they change themselves.
+ */
+function checkEncoding(encoding: any, path: string, errors: string[]): void {
+  const { variants, ...mainSettings } = encoding;
+  const checkSettings = (own: any, settingsPath: string) => {
+    const settings = { ...mainSettings, ...own };
+    if (
+      (own.container !== undefined || own.codec !== undefined) &&
+      (settings.container || "mp4") === "webm" &&
+      !WEBM_CODECS.includes(settings.codec || "x264")
+    ) {
+      errors.push(
+        `${settingsPath}.container webm needs codec vp9, av1-aom or av1-svt`
+      );
+    }
+    const codec = settings.codec || "x264";
+    if (
+      (own.crf !== undefined || own.codec !== undefined) &&
+      typeof settings.crf === "number" &&
+      MAX_CRF[codec] !== undefined &&
+      settings.crf > MAX_CRF[codec] &&
+      settings.crf <= 63 // higher values are already reported by the schema
+    ) {
+      errors.push(
+        `${settingsPath}.crf must be <= ${MAX_CRF[codec]} with codec ${codec}`
+      );
+    }
+    if (
+      isObject(own.scale) &&
+      own.scale.width === undefined &&
+      own.scale.height === undefined
+    ) {
+      errors.push(`${settingsPath}.scale needs a width and/or height`);
+    }
+  };
+
+  checkSettings(mainSettings, path);
+  if (!Array.isArray(variants)) {
+    return;
   }
 
-  // Validate prusaLink section
-  if (!config.prusaLink) {
-    throw new ConfigError("Missing prusaLink configuration section");
+  const suffixes = new Set<unknown>();
+  variants.forEach((variant: any, index: number) => {
+    if (!isObject(variant)) {
+      return;
+    }
+    const variantPath = `${path}.variants[${index}]`;
+    if (suffixes.has(variant.suffix)) {
+      errors.push(
+        `${variantPath}.suffix ${JSON.stringify(variant.suffix)} is used twice`
+      );
+    }
+    suffixes.add(variant.suffix);
+    checkSettings(variant, variantPath);
+  });
+}
+
+function checkTimelapse(timelapse: any, path: string, errors: string[]): void {
+  if (timelapse.source === undefined && timelapse.rtspUrl === undefined) {
+    errors.push(`${path}.rtspUrl is required unless ${path}.source is set`);
   }
-  const prusaLink = config.prusaLink;
-  if (!prusaLink.host || typeof prusaLink.host !== "string") {
-    throw new ConfigError("Invalid or missing prusaLink.host");
+  if (
+    typeof timelapse.minFramerate === "number" &&
+    typeof timelapse.maxFramerate === "number" &&
+    timelapse.minFramerate > timelapse.maxFramerate
+  ) {
+    errors.push(`${path}.minFramerate must not exceed maxFramerate`);
   }
   if (
-    !prusaLink.port ||
-    typeof prusaLink.port !== "number" ||
-    prusaLink.port <= 0
+    timelapse.autoCaptureInterval === true &&
+    timelapse.targetDurationSeconds === undefined
   ) {
-    throw new ConfigError("Invalid or missing prusaLink.port");
+    errors.push(
+      `${path}.autoCaptureInterval needs ${path}.targetDurationSeconds`
+    );
   }
-  if (!prusaLink.apiKey || typeof prusaLink.apiKey !== "string") {
-    throw new ConfigError("Invalid or missing prusaLink.apiKey");
+  if (isObject(timelapse.encoding)) {
+    checkEncoding(timelapse.encoding, `${path}.encoding`, errors);
   }
+  const diskSpace = timelapse.diskSpace;
+  if (
+    isObject(diskSpace) &&
+    typeof diskSpace.warnFreeBytes === "number" &&
+    typeof diskSpace.minFreeBytes === "number" &&
+    diskSpace.warnFreeBytes < diskSpace.minFreeBytes
+  ) {
+    errors.push(`${path}.diskSpace.warnFreeBytes must be >= minFreeBytes`);
+  }
+}
 
-  // Validate timelapse section
-  if (!config.timelapse) {
-    throw new ConfigError("Missing timelapse configuration section");
+function checkPrusaLink(prusaLink: any, path: string, errors: string[]): void {
+  if (!isObject(prusaLink)) {
+    return;
   }
-  const timelapse = config.timelapse;
-  if (!timelapse.rtspUrl || typeof timelapse.rtspUrl !== "string") {
-    throw new ConfigError("Invalid or missing timelapse.rtspUrl");
+  if (prusaLink.apiKey === undefined && prusaLink.auth === undefined) {
+    errors.push(`${path}.apiKey or ${path}.auth is required`);
+  } else if (prusaLink.apiKey !== undefined && prusaLink.auth !== undefined) {
+    errors.push(`${path}.apiKey and ${path}.auth are both set, use only one`);
   }
-  if (
-    !timelapse.captureInterval ||
-    typeof timelapse.captureInterval !== "number" ||
-    timelapse.captureInterval <= 0
-  ) {
-    throw new ConfigError("Invalid or missing timelapse.captureInterval");
+  if (prusaLink.protocol !== "https") {
+    if (prusaLink.ca !== undefined) {
+      errors.push(`${path}.ca needs protocol "https"`);
+    }
+    if (prusaLink.insecure === true) {
+      errors.push(`${path}.insecure needs protocol "https"`);
+    }
   }
-  if (
-    !timelapse.outputFramerate ||
-    typeof timelapse.outputFramerate !== "number" ||
-    timelapse.outputFramerate <= 0
-  ) {
-    throw new ConfigError("Invalid or missing timelapse.outputFramerate");
+}
+
+function checkPrinters(config: any, errors: string[]): void {
+  const names = new Set<string>();
+  const tempDirectories = new Set<string>();
+
+  config.printers.forEach((printer: any, index: number) => {
+    if (!isObject(printer)) {
+      return;
+    }
+    const path = `printers[${index}]`;
+
+    if (typeof printer.name === "string") {
+      if (names.has(printer.name)) {
+        errors.push(
+          `${path}.name ${JSON.stringify(printer.name)} is used twice`
+        );
+      }
+      names.add(printer.name);
+    }
+
+    checkPrusaLink(printer.prusaLink, `${path}.prusaLink`, errors);
+
+    if (printer.timelapse !== undefined && !isObject(printer.timelapse)) {
+      return;
+    }
+    const timelapse = { ...config.timelapse, ...printer.timelapse };
+    checkTimelapse(timelapse, `${path}.timelapse`, errors);
+
+    // Sharing a temp directory would mix frames from different prints
+    if (typeof timelapse.tempDirectory === "string") {
+      const tempDirectory = resolve(timelapse.tempDirectory);
+      if (tempDirectories.has(tempDirectory)) {
+        errors.push(
+          `${path}.timelapse.tempDirectory is already used by another printer`
+        );
+      }
+      tempDirectories.add(tempDirectory);
+    }
+  });
+}
+
+/**
+ * Rules that span several settings, which the schema can't express.
+ */
+function checkConsistency(config: any, errors: string[]): void {
+  if (Array.isArray(config.printers)) {
+    // Multi-printer setup: top-level timelapse holds shared defaults
+    if (isObject(config.timelapse)) {
+      checkPrinters(config, errors);
+    }
+  } else {
+    if (config.prusaLink === undefined) {
+      errors.push("prusaLink is required unless printers is set");
+    }
+    checkPrusaLink(config.prusaLink, "prusaLink", errors);
+    if (isObject(config.timelapse)) {
+      checkTimelapse(config.timelapse, "timelapse", errors);
+    }
   }
+
+  const notification = config.notification;
   if (
-    !timelapse.outputDirectory ||
-    typeof timelapse.outputDirectory !== "string"
+    isObject(notification) &&
+    notification.command === undefined &&
+    notification.channels === undefined
   ) {
-    throw new ConfigError("Invalid or missing timelapse.outputDirectory");
-  }
-  if (!timelapse.tempDirectory || typeof timelapse.tempDirectory !== "string") {
-    throw new ConfigError("Invalid or missing timelapse.tempDirectory");
+    errors.push("notification needs a command or channels");
   }
+}
 
-  // Validate notification section
-  if (!config.notification) {
-    throw new ConfigError("Missing notification configuration section");
+// Copy of value with the defaults for its unset keys, keeping its key order
+function withDefaults(defaults: object, value: any): any {
+  const result = { ...value };
+  for (const [key, defaultValue] of Object.entries(defaults)) {
+    if (result[key] === undefined) {
+      result[key] = defaultValue;
+    }
   }
-  const notification = config.notification;
-  if (!notification.command || typeof notification.command !== "string") {
-    throw new ConfigError("Invalid or missing notification.command");
+  return result;
+}
+
+// The port defaults to the one of the protocol
+function prusaLinkDefaults(prusaLink: any): any {
+  const result = withDefaults(PRUSA_LINK_DEFAULTS, prusaLink);
+  if (result.port === undefined) {
+    result.port = PRUSA_LINK_PORTS[result.protocol];
   }
+  return result;
+}
 
-  // Validate pollInterval
-  if (
-    !config.pollInterval ||
-    typeof config.pollInterval !== "number" ||
-    config.pollInterval <= 0
-  ) {
-    throw new ConfigError("Invalid or missing pollInterval");
+/**
+ * Fills in the defaults for options left unset. Sections of the wrong type
+ * are left alone for validation to report.
+ */
+function applyDefaults(config: Record<string, unknown>): any {
+  const result = withDefaults(DEFAULTS, config);
+  if (config.timelapse === undefined || isObject(config.timelapse)) {
+    result.timelapse = withDefaults(TIMELAPSE_DEFAULTS, config.timelapse);
   }
+  if (Array.isArray(result.printers)) {
+    result.printers = result.printers.map((printer: any) =>
+      isObject(printer) && isObject(printer.prusaLink)
+        ? {
+            ...printer,
+            prusaLink: prusaLinkDefaults(printer.prusaLink),
+          }
+        : printer
+    );
+  } else if (isObject(result.prusaLink)) {
+    result.prusaLink = prusaLinkDefaults(result.prusaLink);
+  }
+  return result;
+}
 
-  // Validate watchdogTimeout
-  if (
-    config.watchdogTimeout === undefined ||
-    typeof config.watchdogTimeout !== "number" ||
-    config.watchdogTimeout < 0
-  ) {
-    throw new ConfigError("Invalid watchdogTimeout (must be >= 0)");
+export interface ConfigCheck {
+  config: AppConfig; // with defaults filled in; only usable without errors
+  errors: string[];
+  warnings: string[]; // settings that are ignored, such as misspelled keys
+}
+
+/**
+ * Validates a parsed configuration against the schema and the rules between
+ * settings, and fills in the defaults. Every problem is collected instead of
+ * stopping at the first.
+ */
+export function validateConfig(input: unknown): ConfigCheck {
+  if (!isObject(input)) {
+    return {
+      config: input as AppConfig,
+      errors: [
+        input
+          ? "Configuration must be a JSON object"
+          : "Configuration is empty",
+      ],
+      warnings: [],
+    };
   }
 
-  return config as AppConfig;
+  const config = applyDefaults(input);
+  const { errors, warnings } = validateSchema(CONFIG_SCHEMA, config);
+  checkConsistency(config, errors);
+  return { config, errors, warnings };
 }
 
-export function loadConfig(configPath: string): AppConfig {
+/**
+ * Returns the JSON Schema of the configuration file, for editors.
+ */
+export function configJsonSchema(): Record<string, unknown> {
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    title: "prusa-timelapse configuration",
+    ...toJsonSchema(CONFIG_SCHEMA),
+  };
+}
+
+/**
+ * Loads the configuration in layers: defaults, the JSON file, PRUSA_TIMELAPSE_*
+ * environment variables, then `--set` overrides from the command line.
+ * Warnings about ignored settings are printed; the ConfigError lists every
+ * problem found.
+ */
+export function loadConfig(
+  configPath: string,
+  overrides: string[] = [],
+  env: NodeJS.ProcessEnv = process.env
+): AppConfig {
   try {
     const configData = readFileSync(configPath, "utf-8");
-    const config = JSON.parse(configData);
-    return validateConfig(config);
+    const parsed = JSON.parse(configData);
+    if (isObject(parsed)) {
+      applyEnvironment(parsed, env);
+      applyOverrides(parsed, overrides);
+    }
+    const { config, errors, warnings } = validateConfig(parsed);
+    for (const warning of warnings) {
+      console.warn(`Configuration warning: ${warning}`);
+    }
+    if (errors.length === 1) {
+      throw new ConfigError(errors[0]);
+    }
+    if (errors.length > 1) {
+      throw new ConfigError(
+        `${errors.length} problems found:\n${errors
+          .map((error) => `  - ${error}`)
+          .join("\n")}`,
+        errors
+      );
+    }
+    return config;
   } catch (error) {
     if (error instanceof ConfigError) {
       throw error;
@@ -111,3 +342,54 @@ export function loadConfig(configPath: string): AppConfig {
     );
   }
 }
+
+// A PrusaLink camera source reaches the camera through its printer
+function withCameraConnection(printer: PrinterConfig): PrinterConfig {
+  const source = printer.timelapse.source;
+  if (source?.type !== "prusalink") {
+    return printer;
+  }
+  return {
+    ...printer,
+    timelapse: {
+      ...printer.timelapse,
+      source: { ...source, prusaLink: printer.prusaLink },
+    },
+  };
+}
+
+/**
+ * Expands a validated configuration into one entry per monitored printer.
+ * A single-printer config yields one printer named "default".
+ */
+export function resolvePrinters(config: AppConfig): PrinterConfig[] {
+  if (!config.printers) {
+    return [
+      withCameraConnection({
+        name: "default",
+        prusaLink: config.prusaLink!,
+        timelapse: config.timelapse,
+      }),
+    ];
+  }
+
+  return config.printers.map((printer) => {
+    const timelapse = {
+      ...config.timelapse,
+      ...printer.timelapse,
+    } as TimelapseConfig;
+
+    // Keep filenames apart when printers share an output directory
+    if (!printer.timelapse?.outputPrefix) {
+      timelapse.outputPrefix = `${timelapse.outputPrefix || "timelapse"}_${
+        printer.name
+      }`;
+    }
+
+    return withCameraConnection({
+      name: printer.name,
+      prusaLink: printer.prusaLink,
+      timelapse,
+    });
+  });
+}
@@ -0,0 +1,165 @@
+import { readFileSync } from "fs";
+import { ConfigError } from ".";
+import { schemaAt } from "./schema";
+import { CONFIG_SCHEMA } from "./settings";
+
+const ENV_PREFIX = "PRUSA_TIMELAPSE_";
+
+// Suffix of variables naming a file that holds the value (Docker secrets)
+const FILE_SUFFIX = "_FILE";
+
+const FORBIDDEN_KEYS = ["__proto__", "constructor", "prototype"];
+
+type PathSegment = string | number;
+
+/**
+ * Parses an override value for the setting at a path: anything that is valid
+ * JSON (numbers, booleans, arrays, objects, quoted strings) is taken as such,
+ * the rest as a string. Text settings, such as passwords, stay strings even
+ * when they look like a number or a boolean.
+ */
+function parseValue(raw: string, segments: PathSegment[]): unknown {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (error) {
+    return raw;
+  }
+  if (
+    schemaAt(CONFIG_SCHEMA, segments)?.type === "string" &&
+    typeof value !== "string"
+  ) {
+    return raw;
+  }
+  return value;
+}
+
+// "PRUSA_LINK" -> "prusaLink", "0" -> 0
+function envSegment(segment: string): PathSegment {
+  if (/^\d+$/.test(segment)) {
+    return Number(segment);
+  }
+  return segment
+    .toLowerCase()
+    .replace(/_([a-z0-9])/g, (match, letter: string) => letter.toUpperCase());
+}
+
+// "printers[0].prusaLink.apiKey" -> ["printers", 0, "prusaLink", "apiKey"]
+function pathSegments(path: string): PathSegment[] {
+  return path
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+}
+
+function formatPath(segments: PathSegment[]): string {
+  return segments
+    .map((segment, index) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : `${index > 0 ? "." : ""}${segment}`
+    )
+    .join("");
+}
+
+/**
+ * Sets a value deep in the configuration, creating the objects and arrays on
+ * the way.
+ *
+ * @param source - Where the value came from, for error messages
+ */
+function setPath(
+  config: any,
+  segments: PathSegment[],
+  value: unknown,
+  source: string
+): void {
+  if (
+    segments.length === 0 ||
+    segments.some(
+      (segment) => segment === "" || FORBIDDEN_KEYS.includes(segment as string)
+    )
+  ) {
+    throw new ConfigError(`Invalid setting name in ${source}`);
+  }
+
+  let current = config;
+  segments.forEach((segment, index) => {
+    if (index === segments.length - 1) {
+      current[segment] = value;
+      return;
+    }
+
+    if (current[segment] === undefined || current[segment] === null) {
+      current[segment] = typeof segments[index + 1] === "number" ? [] : {};
+    } else if (typeof current[segment] !== "object") {
+      throw new ConfigError(
+        `Cannot apply ${source}: ${formatPath(
+          segments.slice(0, index + 1)
+        )} is not an object`
+      );
+    }
+    current = current[segment];
+  });
+}
+
+/**
+ * Applies PRUSA_TIMELAPSE_* environment variables to the configuration.
+ * Path segments are separated by a double underscore and written in upper
+ * snake case (PRUSA_TIMELAPSE_PRUSA_LINK__API_KEY sets prusaLink.apiKey).
+ * With a _FILE suffix the variable names a file holding the value.
+ */
+export function applyEnvironment(config: any, env: NodeJS.ProcessEnv): void {
+  const names = Object.keys(env)
+    .filter((name) => name.startsWith(ENV_PREFIX) && env[name] !== undefined)
+    .sort();
+
+  for (const name of names) {
+    const raw = env[name] as string;
+    let key = name.slice(ENV_PREFIX.length);
+    let value: unknown;
+
+    if (key.endsWith(FILE_SUFFIX)) {
+      key = key.slice(0, -FILE_SUFFIX.length);
+      if (env[ENV_PREFIX + key] !== undefined) {
+        throw new ConfigError(
+          `Both ${ENV_PREFIX + key} and ${name} are set, use only one`
+        );
+      }
+      try {
+        // Secrets are strings; drop the newline editors leave at the end
+        value = readFileSync(raw, "utf-8").replace(/\r?\n$/, "");
+      } catch (error) {
+        throw new ConfigError(
+          `Failed to read ${name} file '${raw}': ${(error as Error).message}`
+        );
+      }
+    } else {
+      value = parseValue(raw, key.split("__").map(envSegment));
+    }
+
+    setPath(config, key.split("__").map(envSegment), value, name);
+  }
+}
+
+/**
+ * Applies `--set path=value` command line overrides to the configuration.
+ * Paths use dots and array indices (printers[0].prusaLink.apiKey).
+ */
+export function applyOverrides(config: any, overrides: string[]): void {
+  for (const override of overrides) {
+    const separator = override.indexOf("=");
+    if (separator <= 0) {
+      throw new ConfigError(
+        `Invalid --set ${override} (must look like path=value)`
+      );
+    }
+    const segments = pathSegments(override.slice(0, separator));
+    setPath(
+      config,
+      segments,
+      parseValue(override.slice(separator + 1), segments),
+      `--set ${override.slice(0, separator)}`
+    );
+  }
+}
@@ -0,0 +1,491 @@
+import { isIP } from "net";
+
+interface SchemaBase {
+  description?: string;
+  default?: unknown; // documented in the JSON Schema, applied elsewhere
+}
+
+export interface StringSchema extends SchemaBase {
+  type: "string";
+  enum?: string[];
+  nonEmpty?: boolean;
+  pattern?: RegExp;
+  patternHint?: string; // explains the pattern in error messages
+  format?: "host" | "url";
+  protocols?: string[]; // allowed URL schemes for format "url"
+}
+
+export interface NumberSchema extends SchemaBase {
+  type: "number";
+  integer?: boolean;
+  enum?: number[];
+  minimum?: number;
+  exclusiveMinimum?: number;
+  maximum?: number;
+}
+
+export interface BooleanSchema extends SchemaBase {
+  type: "boolean";
+}
+
+export interface ArraySchema extends SchemaBase {
+  type: "array";
+  items: Schema;
+  minItems?: number;
+}
+
+export interface ObjectSchema extends SchemaBase {
+  type: "object";
+  properties: Record<string, Schema>;
+  required?: string[];
+}
+
+// Object with arbitrary keys, such as HTTP headers
+export interface RecordSchema extends SchemaBase {
+  type: "record";
+  values: Schema;
+}
+
+// Objects told apart by a string property, such as camera sources by "type"
+export interface UnionSchema extends SchemaBase {
+  type: "union";
+  discriminator: string;
+  variants: Record<string, ObjectSchema>;
+}
+
+export type Schema =
+  | StringSchema
+  | NumberSchema
+  | BooleanSchema
+  | ArraySchema
+  | ObjectSchema
+  | RecordSchema
+  | UnionSchema;
+
+export interface SchemaResult {
+  errors: string[];
+  warnings: string[];
+}
+
+// Labels and IPv4 addresses; IPv6 addresses are checked with isIP
+const HOST_PATTERN =
+  /^(?=.{1,253}$)[A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?(\.[A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?)*\.?$/;
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function quoteAll(values: (string | number)[]): string {
+  return values.map((value) => JSON.stringify(value)).join(", ");
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// The known key closest to a misspelled one, if any is close enough
+function suggestKey(key: string, known: string[]): string | null {
+  let best: string | null = null;
+  let bestDistance = Math.max(2, Math.floor(key.length / 4)) + 1;
+  for (const candidate of known) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Checks that a string is a host name or IP address, without a protocol,
+ * port or path.
+ */
+export function isHost(value: string): boolean {
+  const unbracketed = value.replace(/^\[(.*)\]$/, "$1");
+  return isIP(unbracketed) !== 0 || HOST_PATTERN.test(value);
+}
+
+/**
+ * Checks that a string is an absolute URL with a host, optionally limited to
+ * some protocols.
+ */
+export function isUrl(value: string, protocols?: string[]): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch (error) {
+    return false;
+  }
+  const protocol = url.protocol.replace(/:$/, "");
+  return (
+    url.hostname !== "" &&
+    (!protocols || protocols.includes(protocol)) &&
+    value.toLowerCase().startsWith(`${protocol}://`)
+  );
+}
+
+class SchemaValidator {
+  readonly errors: string[] = [];
+  readonly warnings: string[] = [];
+
+  validate(schema: Schema, value: unknown, path: string): void {
+    switch (schema.type) {
+      case "string":
+        this.validateString(schema, value, path);
+        break;
+      case "number":
+        this.validateNumber(schema, value, path);
+        break;
+      case "boolean":
+        if (typeof value !== "boolean") {
+          this.errors.push(`${path} must be true or false`);
+        }
+        break;
+      case "array":
+        this.validateArray(schema, value, path);
+        break;
+      case "object":
+        this.validateObject(schema, value, path);
+        break;
+      case "record":
+        if (!isObject(value)) {
+          this.errors.push(`${path} must be an object`);
+          break;
+        }
+        for (const [key, entry] of Object.entries(value)) {
+          this.validate(schema.values, entry, childPath(path, key));
+        }
+        break;
+      case "union":
+        this.validateUnion(schema, value, path);
+        break;
+    }
+  }
+
+  private validateString(
+    schema: StringSchema,
+    value: unknown,
+    path: string
+  ): void {
+    if (typeof value !== "string") {
+      this.errors.push(
+        schema.enum
+          ? `${path} must be one of ${quoteAll(schema.enum)}`
+          : `${path} must be a string`
+      );
+      return;
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+      this.errors.push(`${path} must be one of ${quoteAll(schema.enum)}`);
+    } else if (schema.nonEmpty && !value.trim()) {
+      this.errors.push(`${path} must not be empty`);
+    } else if (schema.pattern && !schema.pattern.test(value)) {
+      this.errors.push(
+        `${path} is invalid (${schema.patternHint || schema.pattern.source})`
+      );
+    } else if (schema.format === "host" && !isHost(value)) {
+      this.errors.push(
+        `${path} must be a host name or IP address, without protocol, port or path`
+      );
+    } else if (schema.format === "url" && !isUrl(value, schema.protocols)) {
+      this.errors.push(
+        schema.protocols
+          ? `${path} must be a URL starting with ${schema.protocols
+              .map((protocol) => `${protocol}://`)
+              .join(" or ")}`
+          : `${path} must be a URL`
+      );
+    }
+  }
+
+  private validateNumber(
+    schema: NumberSchema,
+    value: unknown,
+    path: string
+  ): void {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      this.errors.push(
+        `${path} must be ${schema.integer ? "an integer" : "a number"}`
+      );
+      return;
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+      this.errors.push(`${path} must be one of ${schema.enum.join(", ")}`);
+    } else if (schema.integer && !Number.isInteger(value)) {
+      this.errors.push(`${path} must be an integer`);
+    } else if (schema.minimum !== undefined && value < schema.minimum) {
+      this.errors.push(`${path} must be >= ${schema.minimum}`);
+    } else if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    ) {
+      this.errors.push(`${path} must be > ${schema.exclusiveMinimum}`);
+    } else if (schema.maximum !== undefined && value > schema.maximum) {
+      this.errors.push(`${path} must be <= ${schema.maximum}`);
+    }
+  }
+
+  private validateArray(
+    schema: ArraySchema,
+    value: unknown,
+    path: string
+  ): void {
+    if (!Array.isArray(value)) {
+      this.errors.push(`${path} must be an array`);
+      return;
+    }
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      this.errors.push(
+        schema.minItems === 1
+          ? `${path} must not be empty`
+          : `${path} must have at least ${schema.minItems} entries`
+      );
+    }
+    value.forEach((item, index) =>
+      this.validate(schema.items, item, childPath(path, index))
+    );
+  }
+
+  private validateObject(
+    schema: ObjectSchema,
+    value: unknown,
+    path: string
+  ): void {
+    if (!isObject(value)) {
+      this.errors.push(`${path} must be an object`);
+      return;
+    }
+
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        this.errors.push(`${childPath(path, key)} is required`);
+      }
+    }
+
+    const known = Object.keys(schema.properties);
+    for (const [key, entry] of Object.entries(value)) {
+      const property = schema.properties[key];
+      if (property) {
+        this.validate(property, entry, childPath(path, key));
+        continue;
+      }
+      const suggestion = suggestKey(key, known);
+      this.warnings.push(
+        `${childPath(path, key)} is not a known setting and is ignored${
+          suggestion ? ` (did you mean ${suggestion}?)` : ""
+        }`
+      );
+    }
+  }
+
+  private validateUnion(
+    schema: UnionSchema,
+    value: unknown,
+    path: string
+  ): void {
+    if (!isObject(value)) {
+      this.errors.push(`${path} must be an object`);
+      return;
+    }
+    const tag = value[schema.discriminator];
+    const variant =
+      typeof tag === "string" && Object.keys(schema.variants).includes(tag)
+        ? schema.variants[tag]
+        : undefined;
+    if (!variant) {
+      this.errors.push(
+        `${childPath(path, schema.discriminator)} must be one of ${quoteAll(
+          Object.keys(schema.variants)
+        )}`
+      );
+      return;
+    }
+    this.validateObject(
+      {
+        ...variant,
+        properties: {
+          [schema.discriminator]: { type: "string" },
+          ...variant.properties,
+        },
+      },
+      value,
+      path
+    );
+  }
+}
+
+/**
+ * Validates a value against a schema, collecting every problem instead of
+ * stopping at the first. Keys the schema doesn't know are warnings.
+ *
+ * @param path - Path of the value, prefixed to every message
+ */
+export function validateSchema(
+  schema: Schema,
+  value: unknown,
+  path = ""
+): SchemaResult {
+  const validator = new SchemaValidator();
+  validator.validate(schema, value, path);
+  return { errors: validator.errors, warnings: validator.warnings };
+}
+
+/**
+ * Finds the schema of the setting at a path, or null if the path isn't a
+ * known setting. A union's variants are searched in order, since the value
+ * telling them apart may not be set yet.
+ */
+export function schemaAt(
+  schema: Schema,
+  segments: (string | number)[]
+): Schema | null {
+  if (segments.length === 0) {
+    return schema;
+  }
+
+  const [segment, ...rest] = segments;
+  switch (schema.type) {
+    case "array":
+      return typeof segment === "number" ? schemaAt(schema.items, rest) : null;
+    case "object":
+      return typeof segment === "string" &&
+        Object.prototype.hasOwnProperty.call(schema.properties, segment)
+        ? schemaAt(schema.properties[segment], rest)
+        : null;
+    case "record":
+      return typeof segment === "string" ? schemaAt(schema.values, rest) : null;
+    case "union":
+      if (segment === schema.discriminator) {
+        return rest.length === 0 ? { type: "string" } : null;
+      }
+      for (const variant of Object.values(schema.variants)) {
+        const found = schemaAt(variant, segments);
+        if (found) {
+          return found;
+        }
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Converts a schema into a JSON Schema (draft-07) for editors and other
+ * tools. Objects don't allow additional properties there, so editors flag
+ * misspelled keys.
+ */
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const common: Record<string, unknown> = {};
+  if (schema.description) {
+    common.description = schema.description;
+  }
+  if (schema.default !== undefined) {
+    common.default = schema.default;
+  }
+
+  switch (schema.type) {
+    case "string": {
+      const result: Record<string, unknown> = { type: "string", ...common };
+      if (schema.enum) {
+        result.enum = schema.enum;
+      }
+      if (schema.nonEmpty) {
+        result.minLength = 1;
+      }
+      if (schema.pattern) {
+        result.pattern = schema.pattern.source;
+      } else if (schema.format === "url" && schema.protocols) {
+        result.pattern = `^(${schema.protocols.join("|")})://`;
+      }
+      if (schema.format) {
+        result.format = schema.format === "url" ? "uri" : "hostname";
+      }
+      return result;
+    }
+    case "number": {
+      const result: Record<string, unknown> = {
+        type: schema.integer ? "integer" : "number",
+        ...common,
+      };
+      for (const key of [
+        "enum",
+        "minimum",
+        "exclusiveMinimum",
+        "maximum",
+      ] as const) {
+        if (schema[key] !== undefined) {
+          result[key] = schema[key];
+        }
+      }
+      return result;
+    }
+    case "boolean":
+      return { type: "boolean", ...common };
+    case "array": {
+      const result: Record<string, unknown> = {
+        type: "array",
+        ...common,
+        items: toJsonSchema(schema.items),
+      };
+      if (schema.minItems !== undefined) {
+        result.minItems = schema.minItems;
+      }
+      return result;
+    }
+    case "object": {
+      const properties: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(schema.properties)) {
+        properties[key] = toJsonSchema(property);
+      }
+      const result: Record<string, unknown> = {
+        type: "object",
+        ...common,
+        properties,
+        additionalProperties: false,
+      };
+      if (schema.required && schema.required.length > 0) {
+        result.required = schema.required;
+      }
+      return result;
+    }
+    case "record":
+      return {
+        type: "object",
+        ...common,
+        additionalProperties: toJsonSchema(schema.values),
+      };
+    case "union":
+      return {
+        type: "object",
+        ...common,
+        required: [schema.discriminator],
+        oneOf: Object.entries(schema.variants).map(([tag, variant]) => {
+          const converted = toJsonSchema(variant);
+          const properties = converted.properties as Record<string, unknown>;
+          properties[schema.discriminator] = { const: tag };
+          return converted;
+        }),
+      };
+  }
+}
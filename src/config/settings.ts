@@ -0,0 +1,623 @@
+import { NotificationEvent } from "../types/config";
+import {
+  ArraySchema,
+  NumberSchema,
+  ObjectSchema,
+  Schema,
+  StringSchema,
+} from "./schema";
+
+// Values used for options the configuration leaves unset
+export const DEFAULTS = {
+  pollInterval: 10,
+  watchdogTimeout: 3600,
+};
+export const PRUSA_LINK_DEFAULTS = {
+  protocol: "http",
+};
+// Default port of each protocol
+export const PRUSA_LINK_PORTS: Record<string, number> = {
+  http: 80,
+  https: 443,
+};
+export const TIMELAPSE_DEFAULTS = {
+  captureInterval: 30,
+  outputFramerate: 30,
+  outputDirectory: "./timelapses",
+  tempDirectory: "./temp",
+};
+
+const NOTIFICATION_EVENTS: NotificationEvent[] = [
+  "print_started",
+  "capture_failed",
+  "capture_degraded",
+  "disk_space_low",
+  "watchdog_triggered",
+  "assembly_failed",
+  "timelapse_completed",
+];
+
+const text = (description: string, nonEmpty = true): StringSchema => ({
+  type: "string",
+  nonEmpty,
+  description,
+});
+
+const oneOf = (
+  values: string[],
+  description: string,
+  defaultValue?: string
+): StringSchema => ({
+  type: "string",
+  enum: values,
+  description,
+  default: defaultValue,
+});
+
+const url = (protocols: string[], description: string): StringSchema => ({
+  type: "string",
+  format: "url",
+  protocols,
+  description,
+});
+
+const host = (description: string): StringSchema => ({
+  type: "string",
+  format: "host",
+  description,
+});
+
+const port = (description: string, defaultValue?: number): NumberSchema => ({
+  type: "number",
+  integer: true,
+  minimum: 1,
+  maximum: 65535,
+  description,
+  default: defaultValue,
+});
+
+const positive = (
+  description: string,
+  defaultValue?: number
+): NumberSchema => ({
+  type: "number",
+  exclusiveMinimum: 0,
+  description,
+  default: defaultValue,
+});
+
+const positiveInteger = (
+  description: string,
+  defaultValue?: number
+): NumberSchema => ({
+  type: "number",
+  integer: true,
+  minimum: 1,
+  description,
+  default: defaultValue,
+});
+
+const seconds = (description: string, defaultValue?: number): NumberSchema => ({
+  type: "number",
+  minimum: 0,
+  description: `${description} (seconds)`,
+  default: defaultValue,
+});
+
+const flag = (description: string, defaultValue?: boolean): Schema => ({
+  type: "boolean",
+  description,
+  default: defaultValue,
+});
+
+const list = (items: Schema, description: string): ArraySchema => ({
+  type: "array",
+  items,
+  description,
+});
+
+const headers: Schema = {
+  type: "record",
+  values: { type: "string" },
+  description: "Extra HTTP headers",
+};
+
+// apiKey or auth is required, which checkConsistency enforces
+const PRUSA_LINK_SCHEMA: ObjectSchema = {
+  type: "object",
+  description: "PrusaLink connection",
+  required: ["host"],
+  properties: {
+    host: host("IP address or host name of the printer"),
+    port: port("PrusaLink web interface port (default: 80, 443 with https)"),
+    apiKey: text("PrusaLink API key, shown in the printer's settings"),
+    auth: {
+      type: "union",
+      discriminator: "type",
+      description: "Authentication, replaces apiKey",
+      variants: {
+        apikey: {
+          type: "object",
+          required: ["apiKey"],
+          properties: {
+            apiKey: text("PrusaLink API key"),
+          },
+        },
+        digest: {
+          type: "object",
+          required: ["username", "password"],
+          properties: {
+            username: text("PrusaLink user name"),
+            password: text("PrusaLink password"),
+          },
+        },
+      },
+    },
+    protocol: oneOf(
+      ["http", "https"],
+      "Protocol of the web interface",
+      PRUSA_LINK_DEFAULTS.protocol
+    ),
+    ca: text("PEM file of the CA that signed the printer's certificate"),
+    insecure: flag("Don't verify the printer's certificate", false),
+    timeout: positive("Seconds before a request is aborted", 10),
+    retries: {
+      type: "number",
+      integer: true,
+      minimum: 0,
+      description: "Extra attempts after a network error or timeout",
+      default: 2,
+    },
+    retryDelay: seconds("Wait before the first retry, doubled for each", 1),
+    failureThreshold: {
+      type: "number",
+      integer: true,
+      minimum: 0,
+      description:
+        "Failed requests in a row before polling slows down (0 = never)",
+      default: 3,
+    },
+    maxBackoff: positive(
+      "Longest wait in seconds between polls of an unreachable printer",
+      300
+    ),
+  },
+};
+
+const SOURCE_SCHEMA: Schema = {
+  type: "union",
+  discriminator: "type",
+  description: "Camera source, replaces rtspUrl",
+  variants: {
+    rtsp: {
+      type: "object",
+      required: ["url"],
+      properties: {
+        url: url(["rtsp", "rtsps"], "RTSP stream URL"),
+        transport: oneOf(["tcp", "udp"], "RTSP transport", "tcp"),
+      },
+    },
+    "http-snapshot": {
+      type: "object",
+      required: ["url"],
+      properties: {
+        url: url(["http", "https"], "URL returning one JPEG per request"),
+        username: text("HTTP Basic auth user name", false),
+        password: text("HTTP Basic auth password", false),
+        headers,
+      },
+    },
+    mjpeg: {
+      type: "object",
+      required: ["url"],
+      properties: {
+        url: url(["http", "https"], "MJPEG stream URL"),
+        username: text("HTTP Basic auth user name", false),
+        password: text("HTTP Basic auth password", false),
+      },
+    },
+    v4l2: {
+      type: "object",
+      properties: {
+        device: text("Video device (default: /dev/video0)", false),
+        inputFormat: text("Input format, e.g. mjpeg", false),
+        videoSize: {
+          type: "string",
+          pattern: /^\d+x\d+$/,
+          patternHint: 'must look like "1920x1080"',
+          description: "Capture resolution, e.g. 1920x1080",
+        },
+      },
+    },
+    file: {
+      type: "object",
+      required: ["directory"],
+      properties: {
+        directory: text("Directory of JPEG images replayed in name order"),
+        loop: flag("Start over after the last image", false),
+      },
+    },
+    testsrc: {
+      type: "object",
+      properties: {
+        videoSize: {
+          type: "string",
+          pattern: /^\d+x\d+$/,
+          patternHint: 'must look like "1920x1080"',
+          description: "Frame size",
+          default: "1280x720",
+        },
+      },
+    },
+    prusalink: {
+      type: "object",
+      properties: {
+        cameraId: text("Camera ID (default: the printer's default camera)"),
+      },
+    },
+  },
+};
+
+const ENCODING_PROPERTIES: Record<string, Schema> = {
+  codec: oneOf(
+    ["x264", "x265", "vp9", "av1-aom", "av1-svt"],
+    "Video codec",
+    "x264"
+  ),
+  crf: {
+    type: "number",
+    integer: true,
+    minimum: 0,
+    maximum: 63,
+    description: "Constant quality, lower is better (x264 and x265: 0-51)",
+  },
+  preset: text("Encoder speed preset"),
+  container: oneOf(["mp4", "webm", "mkv"], "Container and extension", "mp4"),
+  crop: {
+    type: "object",
+    description: "Crop before rotating, flipping and scaling",
+    required: ["width", "height"],
+    properties: {
+      width: positiveInteger("Width in pixels"),
+      height: positiveInteger("Height in pixels"),
+      x: {
+        type: "number",
+        integer: true,
+        minimum: 0,
+        description: "Left edge (default: centered)",
+      },
+      y: {
+        type: "number",
+        integer: true,
+        minimum: 0,
+        description: "Top edge (default: centered)",
+      },
+    },
+  },
+  rotate: {
+    type: "number",
+    enum: [0, 90, 180, 270],
+    description: "Clockwise rotation in degrees",
+  },
+  flip: oneOf(["horizontal", "vertical"], "Mirror the picture"),
+  scale: {
+    type: "object",
+    description: "Output size; a missing side keeps the aspect ratio",
+    properties: {
+      width: positiveInteger("Width in pixels"),
+      height: positiveInteger("Height in pixels"),
+    },
+  },
+};
+
+const ENCODING_SCHEMA: ObjectSchema = {
+  type: "object",
+  description: "Video encoding (default: H.264 in an MP4)",
+  properties: {
+    ...ENCODING_PROPERTIES,
+    variants: list(
+      {
+        type: "object",
+        required: ["suffix"],
+        properties: {
+          suffix: {
+            type: "string",
+            pattern: /^[A-Za-z0-9._-]+$/,
+            patternHint: "letters, digits, '.', '-' and '_' only",
+            description: "Appended to the output file name, e.g. _1080p",
+          },
+          ...ENCODING_PROPERTIES,
+        },
+      },
+      "Extra videos; unset settings are taken from the main encoding"
+    ),
+  },
+};
+
+const POST_PROCESS_SCHEMA: ObjectSchema = {
+  type: "object",
+  description: "Last-frame hold, beauty shot, fades and title card",
+  properties: {
+    holdLastFrame: seconds("Keep showing the last frame"),
+    beautyShot: {
+      type: "object",
+      description: "Extra still taken after a finished print",
+      properties: {
+        delay: seconds("Wait after the print finished", 10),
+        duration: seconds("How long the shot is shown", 3),
+      },
+    },
+    fadeIn: seconds("Fade in from black"),
+    fadeOut: seconds("Fade out to black"),
+    titleCard: {
+      type: "object",
+      description: "Text card at the start or end of the video",
+      properties: {
+        text: text("Template for the text"),
+        duration: seconds("How long the card is shown", 3),
+        position: oneOf(["start", "end"], "Where the card is shown", "start"),
+        fontSize: positiveInteger("Font size in pixels", 48),
+        fontColor: text("ffmpeg color"),
+        fontFile: text("TrueType font file"),
+      },
+    },
+  },
+};
+
+const OVERLAY_SCHEMA: ObjectSchema = {
+  type: "object",
+  description: "Printer telemetry shown over the video",
+  properties: {
+    fields: {
+      type: "array",
+      minItems: 1,
+      items: oneOf(
+        [
+          "progress",
+          "elapsed",
+          "remaining",
+          "layer",
+          "temperatures",
+          "speed",
+          "flow",
+        ],
+        "Overlay line"
+      ),
+      description: "What to show, one line each",
+    },
+    position: oneOf(
+      ["top-left", "top", "top-right", "bottom-left", "bottom", "bottom-right"],
+      "Where the overlay is drawn",
+      "bottom-left"
+    ),
+    fontSize: positiveInteger(
+      "Font size relative to a 288 pixel high video",
+      12
+    ),
+    burnIn: flag("Render the overlay into the video", true),
+    sidecar: oneOf(["srt", "vtt"], "Also write a subtitle file"),
+  },
+};
+
+const RETENTION_SCHEMA: ObjectSchema = {
+  type: "object",
+  description: "Clean up old timelapses and quarantined frames",
+  properties: {
+    maxAgeDays: positive("Delete timelapses older than this"),
+    maxCount: positiveInteger("Keep at most this many timelapses per printer"),
+    maxTotalBytes: positive("Keep the printer's timelapses below this size"),
+    quarantineMaxAgeDays: positive(
+      "Delete quarantined frame sets older than this"
+    ),
+    interval: positive("Seconds between cleanups", 3600),
+  },
+};
+
+const DISK_SPACE_SCHEMA: ObjectSchema = {
+  type: "object",
+  description: "Guard against the temp volume filling up",
+  required: ["minFreeBytes"],
+  properties: {
+    warnFreeBytes: positive("Warn below this (default: twice minFreeBytes)"),
+    minFreeBytes: positive("Take the action below this"),
+    action: oneOf(
+      ["warn", "pause", "thin"],
+      "What to do below minFreeBytes",
+      "pause"
+    ),
+  },
+};
+
+// Every key is optional: printers override single settings of the shared section
+const TIMELAPSE_SCHEMA: ObjectSchema = {
+  type: "object",
+  description: "Capture and assembly settings",
+  properties: {
+    rtspUrl: url(
+      ["rtsp", "rtsps"],
+      "RTSP URL of the camera (required unless source is set)"
+    ),
+    source: SOURCE_SCHEMA,
+    captureInterval: positive(
+      "Seconds between captured frames",
+      TIMELAPSE_DEFAULTS.captureInterval
+    ),
+    outputFramerate: positive(
+      "Frames per second of the video",
+      TIMELAPSE_DEFAULTS.outputFramerate
+    ),
+    outputDirectory: text(
+      `Directory for the finished videos (default: ${TIMELAPSE_DEFAULTS.outputDirectory})`
+    ),
+    tempDirectory: text(
+      `Directory for the captured frames (default: ${TIMELAPSE_DEFAULTS.tempDirectory})`
+    ),
+    outputPrefix: text("Prefix of the video file names"),
+    outputFilenameTemplate: text("Template for the video file names"),
+    mode: oneOf(["interval", "layer"], "Capture mode", "interval"),
+    layerSettleDelay: seconds("Wait after a layer change before grabbing"),
+    orphanPolicy: oneOf(
+      ["assemble", "quarantine"],
+      "What to do with frames of another job at startup",
+      "quarantine"
+    ),
+    pauseOnAttention: flag("Also suspend capture in ATTENTION state", false),
+    staleFrameIntervals: {
+      type: "number",
+      integer: true,
+      minimum: 0,
+      description: "Restart capture after this many intervals without a frame",
+      default: 3,
+    },
+    maxCaptureRestarts: {
+      type: "number",
+      integer: true,
+      minimum: 0,
+      description: "Restarts allowed per capture before giving up",
+      default: 10,
+    },
+    captureRestartDelay: positive("Seconds before restarting capture", 5),
+    encoding: ENCODING_SCHEMA,
+    targetDurationSeconds: positive("Aim for this video length in seconds"),
+    minFramerate: positive("Lowest framerate used to reach the target", 10),
+    maxFramerate: positive("Highest framerate used to reach the target", 60),
+    frameSelection: oneOf(
+      ["framerate", "drop", "blend"],
+      "What to do when maxFramerate isn't enough",
+      "drop"
+    ),
+    autoCaptureInterval: flag(
+      "Pick the capture interval from the remaining print time",
+      false
+    ),
+    postProcess: POST_PROCESS_SCHEMA,
+    overlay: OVERLAY_SCHEMA,
+    report: flag("Write a JSON and CSV print report", true),
+    thumbnail: oneOf(
+      ["last-frame", "gcode"],
+      "Library thumbnail and video poster",
+      "last-frame"
+    ),
+    retention: RETENTION_SCHEMA,
+    diskSpace: DISK_SPACE_SCHEMA,
+  },
+};
+
+const CHANNEL_PROPERTIES: Record<string, Schema> = {
+  events: list(
+    oneOf(NOTIFICATION_EVENTS, "Notification event"),
+    "Events delivered to this channel (default: all)"
+  ),
+  retries: {
+    type: "number",
+    minimum: 0,
+    description: "Extra delivery attempts after a failure",
+    default: 0,
+  },
+  retryDelay: seconds("Wait between attempts", 5),
+  timeout: positive("Seconds before a delivery attempt is aborted", 30),
+};
+
+const NOTIFICATION_SCHEMA: ObjectSchema = {
+  type: "object",
+  description: "Notifications (needs command or channels)",
+  properties: {
+    command: text("Shell command run when a timelapse is completed"),
+    channels: list(
+      {
+        type: "union",
+        discriminator: "type",
+        variants: {
+          shell: {
+            type: "object",
+            required: ["command"],
+            properties: {
+              command: text("Shell command"),
+              ...CHANNEL_PROPERTIES,
+            },
+          },
+          webhook: {
+            type: "object",
+            required: ["url"],
+            properties: {
+              url: url(["http", "https"], "Receives the event as JSON"),
+              method: oneOf(["POST", "PUT"], "HTTP method", "POST"),
+              headers,
+              ...CHANNEL_PROPERTIES,
+            },
+          },
+          mqtt: {
+            type: "object",
+            required: ["host", "topic"],
+            properties: {
+              host: host("MQTT broker"),
+              port: port("MQTT broker port", 1883),
+              topic: text("Topic the events are published to"),
+              username: text("User name", false),
+              password: text("Password", false),
+              clientId: text("Client ID", false),
+              retain: flag("Publish retained messages"),
+              ...CHANNEL_PROPERTIES,
+            },
+          },
+        },
+      },
+      "Notification channels"
+    ),
+  },
+};
+
+export const CONFIG_SCHEMA: ObjectSchema = {
+  type: "object",
+  required: ["notification"],
+  properties: {
+    $schema: text("JSON Schema of this file, for editors"),
+    prusaLink: PRUSA_LINK_SCHEMA,
+    timelapse: TIMELAPSE_SCHEMA,
+    printers: {
+      type: "array",
+      minItems: 1,
+      description: "Monitor several printers from one service",
+      items: {
+        type: "object",
+        required: ["name", "prusaLink"],
+        properties: {
+          name: {
+            type: "string",
+            pattern: /^[A-Za-z0-9_-]+$/,
+            patternHint: "letters, digits, '-' and '_' only",
+            description: "Used in log prefixes and file names",
+          },
+          prusaLink: PRUSA_LINK_SCHEMA,
+          timelapse: {
+            ...TIMELAPSE_SCHEMA,
+            description: "Overrides of the top-level timelapse settings",
+          },
+        },
+      },
+    },
+    notification: NOTIFICATION_SCHEMA,
+    server: {
+      type: "object",
+      description: "Embedded HTTP status and control API",
+      required: ["port", "token"],
+      properties: {
+        host: host("Interface to listen on (default: 0.0.0.0)"),
+        port: port("Port to listen on"),
+        token: text("Bearer token required on every request"),
+        gallery: flag("Serve the web gallery at /gallery", false),
+      },
+    },
+    pollInterval: positive(
+      "Seconds between API status checks",
+      DEFAULTS.pollInterval
+    ),
+    watchdogTimeout: {
+      type: "number",
+      minimum: 0,
+      description:
+        "Seconds without PRINTING state before capture is stopped (0 = disabled)",
+      default: DEFAULTS.watchdogTimeout,
+    },
+  },
+};
@@ -1,26 +1,106 @@
 #!/usr/bin/env node
 
-import { resolve } from "path";
-import { ConfigError, loadConfig } from "./config";
+import { prusaLinkUrl } from "./api/client";
+import {
+  assembleCommand,
+  Command,
+  CommandLine,
+  CommandOptions,
+  doctorCommand,
+  listCommand,
+  parseCommandLine,
+  recoverCommand,
+  schemaCommand,
+  simulateCommand,
+  UsageError,
+  USAGE,
+  validateConfigCommand,
+} from "./cli";
+import { ConfigError, loadConfig, resolvePrinters } from "./config";
+import { Logger } from "./logger";
 import { MonitorError, PrintMonitor } from "./monitor";
+import { ServerError, StatusServer } from "./server";
+import { createFrameSource, resolveSourceConfig } from "./timelapse";
+import { AppConfig } from "./types/config";
+
+// One-off commands; they return the process exit code
+const COMMANDS: Record<
+  Exclude<Command, "run" | "schema" | "simulate">,
+  (config: AppConfig, options: CommandOptions) => Promise<number>
+> = {
+  assemble: assembleCommand,
+  recover: recoverCommand,
+  list: listCommand,
+  "validate-config": validateConfigCommand,
+  doctor: doctorCommand,
+};
 
 // Parse command line arguments
-function parseArgs(): { configPath: string } {
+function parseArgs(): CommandLine {
   const args = process.argv.slice(2);
 
   if (args.length === 0) {
-    console.error("Usage: prusa-timelapse <config-file>");
-    console.error("Example: prusa-timelapse config.json");
+    console.error(USAGE);
     process.exit(1);
   }
 
-  const configPath = resolve(args[0]);
-  return { configPath };
+  try {
+    const commandLine = parseCommandLine(args);
+    if (commandLine.help) {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    return commandLine;
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    process.exit(1);
+  }
+}
+
+async function runCommand(
+  command: Exclude<Command, "run" | "schema" | "simulate">,
+  configPath: string,
+  options: CommandOptions,
+  overrides: string[]
+): Promise<void> {
+  try {
+    const config = loadConfig(configPath, overrides);
+    process.exit(await COMMANDS[command](config, options));
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`Configuration error: ${error.message}`);
+    } else if (error instanceof UsageError) {
+      console.error(error.message);
+      console.error(USAGE);
+    } else {
+      console.error(`Error: ${(error as Error).message}`);
+    }
+    process.exit(1);
+  }
 }
 
 // Main application
 async function main(): Promise<void> {
-  const { configPath } = parseArgs();
+  const { command, configPath, options, overrides } = parseArgs();
+  if (command === "schema") {
+    process.exit(await schemaCommand(options));
+  }
+  if (command === "simulate") {
+    try {
+      process.exit(await simulateCommand(options));
+    } catch (error) {
+      console.error((error as Error).message);
+      if (error instanceof UsageError) {
+        console.error(USAGE);
+      }
+      process.exit(1);
+    }
+  }
+  if (command !== "run") {
+    await runCommand(command, configPath, options, overrides);
+    return;
+  }
 
   console.log("Prusa Timelapse Service");
   console.log("======================");
@@ -28,24 +108,49 @@ async function main(): Promise<void> {
   try {
     // Load configuration
     console.log(`Loading configuration from: ${configPath}`);
-    const config = loadConfig(configPath);
+    const config = loadConfig(configPath, overrides);
     console.log("Configuration loaded successfully");
 
-    // Create and start monitor
-    const monitor = new PrintMonitor(config);
+    // Create one independent monitor per printer
+    const printers = resolvePrinters(config);
+    const loggers = printers.map(
+      (printer) =>
+        new Logger(config.printers !== undefined ? printer.name : undefined)
+    );
+    const monitors = printers.map(
+      (printer, index) => new PrintMonitor(config, printer, loggers[index])
+    );
+    const server = config.server
+      ? new StatusServer(config.server, monitors)
+      : null;
 
     // Handle graceful shutdown
     const shutdown = async (signal: string) => {
       console.log(`\nReceived ${signal}, shutting down gracefully...`);
 
-      try {
-        await monitor.stopMonitoring();
-        console.log("Monitoring stopped successfully");
-      } catch (error) {
-        console.error(`Error during shutdown: ${(error as Error).message}`);
+      if (server) {
+        await server.stop();
+      }
+
+      // Stop every monitor even if one of them fails
+      const results = await Promise.allSettled(
+        monitors.map((monitor) => monitor.stopMonitoring())
+      );
+      const failures = results.filter(
+        (result): result is PromiseRejectedResult =>
+          result.status === "rejected"
+      );
+
+      if (failures.length > 0) {
+        for (const failure of failures) {
+          console.error(
+            `Error during shutdown: ${(failure.reason as Error).message}`
+          );
+        }
         process.exit(1);
       }
 
+      console.log("Monitoring stopped successfully");
       process.exit(0);
     };
 
@@ -54,34 +159,48 @@ async function main(): Promise<void> {
 
     // Start monitoring
     console.log("Starting monitoring service...");
-    await monitor.startMonitoring();
+    await Promise.all(monitors.map((monitor) => monitor.startMonitoring()));
+
+    if (server) {
+      await server.start();
+    }
 
     console.log("Service started successfully. Press Ctrl+C to stop.");
     console.log(`Polling interval: ${config.pollInterval} seconds`);
-    console.log(
-      `PrusaLink API: ${config.prusaLink.host}:${config.prusaLink.port}`
-    );
-    console.log(`RTSP URL: ${config.timelapse.rtspUrl}`);
-    console.log(`Output directory: ${config.timelapse.outputDirectory}`);
+    printers.forEach((printer, index) => {
+      const logger = loggers[index];
+      logger.log(`PrusaLink API: ${prusaLinkUrl(printer.prusaLink)}`);
+      logger.log(
+        `Camera source: ${
+          createFrameSource(resolveSourceConfig(printer.timelapse)).description
+        }`
+      );
+      logger.log(`Output directory: ${printer.timelapse.outputDirectory}`);
+    });
 
     // Keep the process running
     setInterval(() => {
       // Periodic status check
-      if (monitor.isCurrentlyMonitoring()) {
-        const printId = monitor.getCurrentPrintId();
-        const capturing = monitor.isCapturing();
-        console.log(
-          `Status: Monitoring active | Print ID: ${
-            printId || "None"
-          } | Capturing: ${capturing}`
-        );
-      }
+      monitors.forEach((monitor, index) => {
+        if (monitor.isCurrentlyMonitoring()) {
+          const printId = monitor.getCurrentPrintId();
+          const capturing = monitor.isCapturing();
+          const degraded = monitor.getSnapshot().captureDegraded;
+          loggers[index].log(
+            `Status: Monitoring active | Print ID: ${
+              printId || "None"
+            } | Capturing: ${capturing}${degraded ? " (degraded)" : ""}`
+          );
+        }
+      });
     }, 60000); // Log status every minute
   } catch (error) {
     if (error instanceof ConfigError) {
       console.error(`Configuration error: ${error.message}`);
     } else if (error instanceof MonitorError) {
       console.error(`Monitor error: ${error.message}`);
+    } else if (error instanceof ServerError) {
+      console.error(`Server error: ${error.message}`);
     } else {
       console.error(`Unexpected error: ${(error as Error).message}`);
     }
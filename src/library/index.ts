@@ -0,0 +1,245 @@
+import { randomBytes } from "crypto";
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { dirname, extname, isAbsolute, join, relative, resolve } from "path";
+import { AssembledVideo, TimelapseCapture } from "../timelapse";
+import { PrinterState } from "../types/api";
+import { SessionInfo } from "../types/notification";
+
+const INDEX_FILE = "index.json";
+const INDEX_VERSION = 1;
+
+// Subdirectory of the output directory holding the thumbnails
+export const THUMBNAIL_DIRECTORY = "thumbnails";
+
+// Written next to a video under its name (print report, subtitle sidecar)
+const COMPANION_EXTENSIONS = [".json", ".csv", ".srt", ".vtt"];
+
+export class LibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LibraryError";
+  }
+}
+
+// One completed timelapse. Paths are relative to the output directory.
+export interface LibraryEntry {
+  id: string;
+  printer: string;
+  jobId: number | null;
+  fileName: string | null; // display name of the print file
+  startedAt: string | null;
+  finishedAt: string | null;
+  finalState: PrinterState | null;
+  printDuration: number | null; // seconds spent printing
+  duration: number; // video length in seconds
+  frameCount: number;
+  size: number; // bytes of the main video
+  video: string;
+  variants: string[]; // encoding variants of the video
+  thumbnail: string | null;
+  createdAt: string; // ISO timestamp the entry was added
+}
+
+interface LibraryIndexFile {
+  version: number;
+  entries: LibraryEntry[];
+}
+
+/**
+ * Index of the completed timelapses in an output directory, kept as
+ * `index.json` next to the videos. Printers sharing an output directory
+ * share the index; entries record which printer they came from.
+ */
+export class TimelapseLibrary {
+  private outputDir: string;
+  private indexPath: string;
+
+  constructor(outputDirectory: string) {
+    this.outputDir = resolve(outputDirectory);
+    this.indexPath = join(this.outputDir, INDEX_FILE);
+  }
+
+  getOutputDirectory(): string {
+    return this.outputDir;
+  }
+
+  thumbnailPath(id: string, extension = ".jpg"): string {
+    return join(this.outputDir, THUMBNAIL_DIRECTORY, `${id}${extension}`);
+  }
+
+  /**
+   * Returns the entries, newest first. An unreadable index is treated as
+   * empty.
+   */
+  list(): LibraryEntry[] {
+    return this.read().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  get(id: string): LibraryEntry | null {
+    return this.read().find((entry) => entry.id === id) || null;
+  }
+
+  /**
+   * Adds an assembled video, with the capture's poster (the G-code
+   * thumbnail) or else its last frame as the thumbnail, so it must run
+   * before the frames are cleared.
+   */
+  addVideo(
+    printer: string,
+    info: SessionInfo,
+    video: AssembledVideo,
+    capture: TimelapseCapture
+  ): LibraryEntry {
+    const id = randomBytes(6).toString("hex");
+    const [videoPath, ...variantPaths] = video.outputPaths;
+    const posterPath = capture.getPosterPath();
+    const thumbnailPath = this.thumbnailPath(
+      id,
+      posterPath ? extname(posterPath) : ".jpg"
+    );
+    let hasThumbnail = true;
+    if (posterPath) {
+      mkdirSync(dirname(thumbnailPath), { recursive: true });
+      copyFileSync(posterPath, thumbnailPath);
+    } else {
+      hasThumbnail = capture.copyLastFrame(thumbnailPath);
+    }
+
+    const entry: LibraryEntry = {
+      id,
+      printer,
+      jobId: info.jobId,
+      fileName: info.fileName,
+      startedAt: info.startedAt,
+      finishedAt: info.finishedAt,
+      finalState: info.finalState,
+      printDuration: info.printDuration,
+      duration: Math.round(video.duration * 1000) / 1000,
+      frameCount: info.frameCount,
+      size: statSync(videoPath).size,
+      video: this.relativeFile(videoPath),
+      variants: variantPaths.map((path) => this.relativeFile(path)),
+      thumbnail: hasThumbnail ? this.relativeFile(thumbnailPath) : null,
+      createdAt: new Date().toISOString(),
+    };
+    this.add(entry);
+    return entry;
+  }
+
+  add(entry: LibraryEntry): void {
+    this.write([...this.read().filter((e) => e.id !== entry.id), entry]);
+  }
+
+  remove(id: string): void {
+    this.write(this.read().filter((entry) => entry.id !== id));
+  }
+
+  /**
+   * Total size in bytes of the videos of an entry that still exist.
+   */
+  entrySize(entry: LibraryEntry): number {
+    return this.videoFiles(entry).reduce((total, path) => {
+      try {
+        return total + statSync(path).size;
+      } catch (error) {
+        return total;
+      }
+    }, 0);
+  }
+
+  /**
+   * Removes an entry and deletes its videos, thumbnail and the files
+   * written next to the main video. Files already gone are skipped.
+   */
+  delete(entry: LibraryEntry): void {
+    const files = this.videoFiles(entry);
+    if (entry.thumbnail) {
+      files.push(this.resolveFile(entry.thumbnail));
+    }
+    const basePath = this.resolveFile(entry.video).replace(/\.[^/.]+$/, "");
+    for (const extension of COMPANION_EXTENSIONS) {
+      // A video called "index" must not take the index with it
+      if (`${basePath}${extension}` !== this.indexPath) {
+        files.push(`${basePath}${extension}`);
+      }
+    }
+
+    for (const file of files) {
+      try {
+        unlinkSync(file);
+      } catch (error) {
+        // Already gone, ignore
+      }
+    }
+    this.remove(entry.id);
+  }
+
+  /**
+   * Returns the absolute path of a file listed in an entry. Paths that would
+   * leave the output directory are rejected.
+   */
+  resolveFile(file: string): string {
+    const path = resolve(this.outputDir, file);
+    const rel = relative(this.outputDir, path);
+    if (!rel || rel.startsWith("..") || isAbsolute(rel)) {
+      throw new LibraryError(`Path outside the output directory: ${file}`);
+    }
+    return path;
+  }
+
+  /**
+   * Converts an absolute path into the form stored in the index.
+   */
+  relativeFile(path: string): string {
+    return relative(this.outputDir, resolve(path));
+  }
+
+  private videoFiles(entry: LibraryEntry): string[] {
+    return [entry.video, ...entry.variants].map((file) =>
+      this.resolveFile(file)
+    );
+  }
+
+  private read(): LibraryEntry[] {
+    if (!existsSync(this.indexPath)) {
+      return [];
+    }
+
+    try {
+      const index = JSON.parse(readFileSync(this.indexPath, "utf-8"));
+      if (
+        !index ||
+        index.version !== INDEX_VERSION ||
+        !Array.isArray(index.entries)
+      ) {
+        console.warn(`Ignoring unsupported library index: ${this.indexPath}`);
+        return [];
+      }
+      return index.entries as LibraryEntry[];
+    } catch (error) {
+      console.warn(
+        `Ignoring unreadable library index: ${(error as Error).message}`
+      );
+      return [];
+    }
+  }
+
+  private write(entries: LibraryEntry[]): void {
+    const index: LibraryIndexFile = { version: INDEX_VERSION, entries };
+
+    // Write then rename so a crash never leaves a half-written index
+    mkdirSync(this.outputDir, { recursive: true });
+    const tempPath = `${this.indexPath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(index, null, 2));
+    renameSync(tempPath, this.indexPath);
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Console logger that tags every line with an optional prefix.
+ * Used to keep per-printer output apart when several printers are monitored.
+ */
+export class Logger {
+  private prefix: string;
+
+  constructor(name?: string) {
+    this.prefix = name ? `[${name}] ` : "";
+  }
+
+  log(message: string): void {
+    console.log(`${this.prefix}${message}`);
+  }
+
+  warn(message: string): void {
+    console.warn(`${this.prefix}${message}`);
+  }
+
+  error(message: string): void {
+    console.error(`${this.prefix}${message}`);
+  }
+}
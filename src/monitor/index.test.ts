@@ -0,0 +1,647 @@
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { createServer } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  AssemblyError,
+  PrinterApi,
+  PrintMonitor,
+  QUARANTINE_DIRECTORY,
+} from ".";
+import { ApiError, PrusaLinkClient } from "../api/client";
+import { Logger } from "../logger";
+import { assembleVideo, TimelapseCapture } from "../timelapse";
+import {
+  FileInfo,
+  Job,
+  PrinterState,
+  StatusResponse,
+  VersionInfo,
+} from "../types/api";
+import { AppConfig, PrinterConfig, TimelapseConfig } from "../types/config";
+
+const START = Date.parse("2026-03-01T12:00:00Z");
+const WATCHDOG_TIMEOUT = 600;
+
+class MemoryLogger extends Logger {
+  readonly lines: string[] = [];
+
+  log(message: string): void {
+    this.lines.push(message);
+  }
+
+  warn(message: string): void {
+    this.lines.push(message);
+  }
+
+  error(message: string): void {
+    this.lines.push(message);
+  }
+}
+
+// A printer whose status the test sets between polls
+class FakePrinter implements PrinterApi {
+  status: StatusResponse = { printer: { state: "IDLE" } };
+  failure: ApiError | null = null;
+
+  set(state: PrinterState, jobId?: number): void {
+    this.status = {
+      printer: { state },
+      job: jobId !== undefined ? { id: jobId, time_printing: 60 } : undefined,
+    };
+  }
+
+  async getStatus(): Promise<StatusResponse> {
+    if (this.failure) {
+      throw this.failure;
+    }
+    return this.status;
+  }
+
+  async getJob(): Promise<Job | null> {
+    const id = this.status.job?.id;
+    if (id === undefined) {
+      return null;
+    }
+    return {
+      id,
+      state: "PRINTING",
+      progress: 0,
+      time_remaining: 3600,
+      time_printing: 0,
+      file: {
+        name: `part${id}.gcode`,
+        display_name: `part${id}.gcode`,
+        path: "/usb",
+        display_path: "/usb",
+        size: 1024,
+        m_timestamp: 0,
+      },
+    };
+  }
+
+  async getFile(): Promise<FileInfo> {
+    throw new ApiError("Not found", "http", 404);
+  }
+
+  async getThumbnail(): Promise<Buffer> {
+    throw new ApiError("Not found", "http", 404);
+  }
+
+  async getVersion(): Promise<VersionInfo> {
+    return {
+      api: "2.0.0",
+      server: "2.1.2",
+      text: "PrusaLink",
+      original: "PrusaLink MK4",
+      firmware: "6.1.3",
+    };
+  }
+
+  retryAfter(): number {
+    return 0;
+  }
+
+  close(): void {}
+}
+
+// Reads the status from a PrusaLink server, the rest from the fake
+class HttpStatusPrinter extends FakePrinter {
+  constructor(private client: PrusaLinkClient) {
+    super();
+  }
+
+  getStatus(): Promise<StatusResponse> {
+    return this.client.getStatus();
+  }
+
+  close(): void {
+    this.client.close();
+  }
+}
+
+// Writes one frame whenever capture (re)starts, without ffmpeg
+class FakeCapture extends TimelapseCapture {
+  readonly starts: boolean[] = []; // resumeIfPossible of every start
+  private capturing = false;
+
+  private frameDirectory: string;
+
+  constructor(config: TimelapseConfig, logger: Logger) {
+    super(config, logger);
+    this.frameDirectory = config.tempDirectory;
+  }
+
+  async startCapture(resumeIfPossible = true): Promise<void> {
+    this.starts.push(resumeIfPossible);
+    mkdirSync(this.frameDirectory, { recursive: true });
+    if (!resumeIfPossible) {
+      this.clearFrames();
+    }
+    this.capturing = true;
+    this.addFrame();
+  }
+
+  async stopCapture(): Promise<void> {
+    this.capturing = false;
+  }
+
+  isCurrentlyCapturing(): boolean {
+    return this.capturing;
+  }
+
+  async captureFrame(): Promise<string> {
+    return this.addFrame();
+  }
+
+  addFrame(): string {
+    const frameNumber = String(this.getHighestFrameNumber() + 1);
+    const framePath = join(
+      this.frameDirectory,
+      `img_${frameNumber.padStart(5, "0")}.jpg`
+    );
+    writeFileSync(framePath, "frame");
+    return framePath;
+  }
+}
+
+describe("PrintMonitor", () => {
+  let directory: string;
+  let config: AppConfig;
+  let printer: PrinterConfig;
+  let now: number;
+  let assemble: jest.MockedFunction<typeof assembleVideo>;
+  let monitors: PrintMonitor[];
+
+  function timelapseConfig(): TimelapseConfig {
+    return {
+      rtspUrl: "rtsp://camera.local/live",
+      captureInterval: 10,
+      outputFramerate: 30,
+      outputDirectory: join(directory, "videos"),
+      tempDirectory: join(directory, "frames"),
+    };
+  }
+
+  // A monitor as after a (re)start of the service, sharing the directories
+  function createMonitor(api = new FakePrinter()) {
+    const logger = new MemoryLogger();
+    const capture = new FakeCapture(printer.timelapse, logger);
+    const monitor = new PrintMonitor(config, printer, logger, {
+      apiClient: api,
+      capture,
+      assembleVideo: assemble,
+      clock: () => now,
+    });
+    monitors.push(monitor);
+    return { monitor, api, capture, logger };
+  }
+
+  async function poll(
+    monitor: PrintMonitor,
+    api: FakePrinter,
+    state: PrinterState,
+    jobId?: number
+  ): Promise<void> {
+    api.set(state, jobId);
+    await monitor.checkStatus();
+  }
+
+  function frames(): string[] {
+    return readdirSync(printer.timelapse.tempDirectory).filter((file) =>
+      /^img_\d+\.jpg$/.test(file)
+    );
+  }
+
+  function manifestPath(): string {
+    return join(printer.timelapse.tempDirectory, "session.json");
+  }
+
+  // Lets work the monitor didn't wait for (the watchdog's completion, layer
+  // grabs) finish
+  async function settle(): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    for (let i = 0; i < 10; i++) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  }
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "monitor-test-"));
+    now = START;
+    monitors = [];
+    printer = {
+      name: "default",
+      prusaLink: { host: "printer.local", port: 80, apiKey: "key" },
+      timelapse: timelapseConfig(),
+    };
+    config = {
+      prusaLink: printer.prusaLink,
+      timelapse: printer.timelapse,
+      notification: { channels: [] },
+      pollInterval: 3600, // polls are driven by the tests
+      watchdogTimeout: WATCHDOG_TIMEOUT,
+    };
+    assemble = jest.fn(
+      async (timelapse: TimelapseConfig, outputPath: string) => {
+        mkdirSync(timelapse.outputDirectory, { recursive: true });
+        writeFileSync(outputPath, "video");
+        return { outputPaths: [outputPath], duration: 1 };
+      }
+    );
+  });
+
+  afterEach(async () => {
+    for (const monitor of monitors) {
+      await monitor.stopMonitoring();
+    }
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("captures a print from start to finish", async () => {
+    const { monitor, api, capture } = createMonitor();
+    await monitor.startMonitoring();
+
+    await poll(monitor, api, "PRINTING", 7);
+    expect(monitor.isCapturing()).toBe(true);
+    expect(capture.starts).toEqual([false]);
+    expect(monitor.getSnapshot().fileName).toBe("part7.gcode");
+    expect(existsSync(manifestPath())).toBe(true);
+
+    capture.addFrame();
+    await poll(monitor, api, "FINISHED", 7);
+
+    expect(assemble).toHaveBeenCalledTimes(1);
+    const [, outputPath, , metadata] = assemble.mock.calls[0];
+    expect(outputPath).toMatch(/timelapse_part7_.*\.mp4$/);
+    expect(metadata).toEqual({
+      title: "part7.gcode",
+      printer_model: "MK4",
+      firmware_version: "6.1.3",
+      comment: "Printed on MK4 (firmware 6.1.3)",
+    });
+    expect(monitor.isCapturing()).toBe(false);
+    expect(frames()).toEqual([]);
+    expect(existsSync(manifestPath())).toBe(false);
+    expect(monitor.getLibrary().list()).toHaveLength(1);
+  });
+
+  it("keeps the frames of a paused print and continues them", async () => {
+    const { monitor, api, capture } = createMonitor();
+    await monitor.startMonitoring();
+    await poll(monitor, api, "PRINTING", 7);
+
+    await poll(monitor, api, "PAUSED", 7);
+    expect(monitor.isCapturing()).toBe(false);
+    expect(monitor.getSnapshot().suspended).toBe(true);
+    expect(frames()).toHaveLength(1);
+
+    await poll(monitor, api, "PRINTING", 7);
+    expect(monitor.isCapturing()).toBe(true);
+    expect(capture.starts).toEqual([false, true]);
+    expect(frames()).toHaveLength(2);
+    expect(assemble).not.toHaveBeenCalled();
+  });
+
+  it("finishes the video when another job replaces the print", async () => {
+    const { monitor, api } = createMonitor();
+    await monitor.startMonitoring();
+    await poll(monitor, api, "PRINTING", 7);
+
+    await poll(monitor, api, "PRINTING", 8);
+
+    expect(assemble).toHaveBeenCalledTimes(1);
+    expect(assemble.mock.calls[0][1]).toMatch(/part7/);
+    expect(monitor.isCapturing()).toBe(true);
+    expect(monitor.getSnapshot().fileName).toBe("part8.gcode");
+  });
+
+  it("keeps capturing while the printer is unreachable", async () => {
+    const { monitor, api, logger } = createMonitor();
+    await monitor.startMonitoring();
+    await poll(monitor, api, "PRINTING", 7);
+
+    api.failure = new ApiError("Request failed: ECONNRESET", "network");
+    now += 30000;
+    await monitor.checkStatus();
+    expect(monitor.isCapturing()).toBe(true);
+    expect(logger.lines).toContain(
+      "PrusaLink unreachable: Request failed: ECONNRESET"
+    );
+
+    api.failure = null;
+    now += 30000;
+    await poll(monitor, api, "PRINTING", 7);
+    expect(logger.lines).toContain("PrusaLink reachable again after 30s");
+    expect(assemble).not.toHaveBeenCalled();
+  });
+
+  it("keeps polling after a response cut off in the middle", async () => {
+    let cutOff = false;
+    const server = createServer((req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      if (cutOff) {
+        res.setHeader("Content-Length", "1000");
+        res.write('{"printer": {"state": "PRI');
+        setTimeout(() => req.socket.destroy(), 50);
+        return;
+      }
+      res.end(
+        JSON.stringify({ printer: { state: "PRINTING" }, job: { id: 7 } })
+      );
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", () => resolve())
+    );
+
+    try {
+      const client = new PrusaLinkClient({
+        host: "127.0.0.1",
+        port: (server.address() as AddressInfo).port,
+        apiKey: "key",
+        timeout: 2,
+        retries: 0,
+      });
+      const { monitor, logger } = createMonitor(new HttpStatusPrinter(client));
+      await monitor.startMonitoring();
+      await monitor.checkStatus();
+      expect(monitor.isCapturing()).toBe(true);
+
+      cutOff = true;
+      now += 30000;
+      await monitor.checkStatus();
+      expect(logger.lines).toContain(
+        "PrusaLink unreachable: Connection closed before the response was complete"
+      );
+
+      cutOff = false;
+      now += 30000;
+      await monitor.checkStatus();
+      expect(logger.lines).toContain("PrusaLink reachable again after 30s");
+      expect(monitor.isCapturing()).toBe(true);
+    } finally {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
+  it("grabs a layer only at a height seen on two polls in a row", async () => {
+    printer.timelapse.mode = "layer";
+    const { monitor, api, logger } = createMonitor();
+    await monitor.startMonitoring();
+    await poll(monitor, api, "PRINTING", 7);
+
+    // 0.8 is a travel Z-hop caught by one poll
+    for (const axisZ of [0.2, 0.2, 0.8, 0.4, 0.4, 0.6, 0.6]) {
+      api.status = {
+        printer: { state: "PRINTING", axis_z: axisZ },
+        job: { id: 7, time_printing: 60 },
+      };
+      await monitor.checkStatus();
+      await settle();
+    }
+
+    const grabs = logger.lines
+      .filter((line) => line.startsWith("Layer frame captured"))
+      .map((line) => line.match(/Z=([\d.]+)/)?.[1]);
+    expect(grabs).toEqual(["0.2", "0.4", "0.6"]);
+  });
+
+  describe("watchdog", () => {
+    it("finishes a capture that sees no PRINTING state in time", async () => {
+      const { monitor, api, logger } = createMonitor();
+      await monitor.startMonitoring();
+      await poll(monitor, api, "PRINTING", 7);
+
+      now += (WATCHDOG_TIMEOUT - 1) * 1000;
+      await poll(monitor, api, "BUSY", 7);
+      await settle();
+      expect(assemble).not.toHaveBeenCalled();
+
+      now += 1000;
+      await poll(monitor, api, "BUSY", 7);
+      await settle();
+
+      expect(logger.lines).toContain(
+        `Watchdog triggered: No PRINTING state seen for ${WATCHDOG_TIMEOUT}s`
+      );
+      expect(assemble).toHaveBeenCalledTimes(1);
+      expect(monitor.isCapturing()).toBe(false);
+    });
+
+    it("is reset by every PRINTING poll", async () => {
+      const { monitor, api } = createMonitor();
+      await monitor.startMonitoring();
+      await poll(monitor, api, "PRINTING", 7);
+
+      for (let i = 0; i < 3; i++) {
+        now += (WATCHDOG_TIMEOUT - 1) * 1000;
+        await poll(monitor, api, "PRINTING", 7);
+      }
+      await settle();
+
+      expect(assemble).not.toHaveBeenCalled();
+      expect(monitor.getSnapshot().watchdogExpiry).toBe(
+        new Date(now + WATCHDOG_TIMEOUT * 1000).toISOString()
+      );
+    });
+
+    it("is stopped while the print is paused", async () => {
+      const { monitor, api } = createMonitor();
+      await monitor.startMonitoring();
+      await poll(monitor, api, "PRINTING", 7);
+      await poll(monitor, api, "PAUSED", 7);
+
+      now += WATCHDOG_TIMEOUT * 2 * 1000;
+      await poll(monitor, api, "PAUSED", 7);
+      await settle();
+
+      expect(assemble).not.toHaveBeenCalled();
+      expect(monitor.getSnapshot().watchdogExpiry).toBeNull();
+    });
+  });
+
+  describe("when assembly fails", () => {
+    beforeEach(() => {
+      assemble.mockRejectedValue(new Error("ffmpeg exited with code 1"));
+    });
+
+    it("keeps the frames and the manifest", async () => {
+      const { monitor, api, logger } = createMonitor();
+      await monitor.startMonitoring();
+      await poll(monitor, api, "PRINTING", 7);
+
+      await poll(monitor, api, "FINISHED", 7);
+
+      expect(logger.lines).toContain(
+        "Error during timelapse completion: ffmpeg exited with code 1"
+      );
+      expect(frames()).toHaveLength(1);
+      expect(existsSync(manifestPath())).toBe(true);
+      expect(monitor.isCapturing()).toBe(false);
+    });
+
+    it("reports the failure of a forced finish", async () => {
+      const { monitor, api } = createMonitor();
+      await monitor.startMonitoring();
+      await poll(monitor, api, "PRINTING", 7);
+
+      await expect(monitor.forceFinish()).rejects.toThrow(
+        new AssemblyError(
+          "Capture finished but no video was made: ffmpeg exited with code 1"
+        )
+      );
+      expect(monitor.isCapturing()).toBe(false);
+      expect(frames()).toHaveLength(1);
+    });
+
+    it("marks the video as failed in the print report", async () => {
+      const { monitor, api } = createMonitor();
+      await monitor.startMonitoring();
+      await poll(monitor, api, "PRINTING", 7);
+
+      await poll(monitor, api, "FINISHED", 7);
+
+      const outputPath = assemble.mock.calls[0][1];
+      const report = JSON.parse(
+        readFileSync(outputPath.replace(/\.mp4$/, ".json"), "utf-8")
+      );
+      expect(existsSync(outputPath)).toBe(false);
+      expect(report).toMatchObject({
+        videoStatus: "failed",
+        outputPaths: [],
+        error: "ffmpeg exited with code 1",
+      });
+    });
+
+    it("quarantines the frames when the next print starts", async () => {
+      const { monitor, api } = createMonitor();
+      await monitor.startMonitoring();
+      await poll(monitor, api, "PRINTING", 7);
+      await poll(monitor, api, "FINISHED", 7);
+      await poll(monitor, api, "IDLE");
+
+      await poll(monitor, api, "PRINTING", 8);
+
+      const quarantine = join(
+        printer.timelapse.tempDirectory,
+        QUARANTINE_DIRECTORY
+      );
+      const sets = readdirSync(quarantine);
+      expect(sets).toEqual([expect.stringMatching(/_job7$/)]);
+      expect(readdirSync(join(quarantine, sets[0]))).toContain("img_00001.jpg");
+      expect(frames()).toEqual(["img_00001.jpg"]);
+      expect(monitor.isCapturing()).toBe(true);
+    });
+  });
+
+  describe("on the first check", () => {
+    // Leaves frames and a manifest of job 7 behind, as a crash would
+    async function interruptedPrint(): Promise<void> {
+      const { monitor, api, capture } = createMonitor();
+      await monitor.startMonitoring();
+      await poll(monitor, api, "PRINTING", 7);
+      capture.addFrame();
+      await monitor.checkStatus();
+      await monitor.stopMonitoring();
+    }
+
+    it("resumes the capture of the same job", async () => {
+      await interruptedPrint();
+      const { monitor, api, capture } = createMonitor();
+      api.set("PRINTING", 7);
+
+      await monitor.startMonitoring();
+
+      expect(capture.starts).toEqual([true]);
+      expect(frames()).toEqual([
+        "img_00001.jpg",
+        "img_00002.jpg",
+        "img_00003.jpg",
+      ]);
+      expect(monitor.getSnapshot().fileName).toBe("part7.gcode");
+      expect(assemble).not.toHaveBeenCalled();
+    });
+
+    it("stays suspended when the print is paused", async () => {
+      await interruptedPrint();
+      const { monitor, api, capture } = createMonitor();
+      api.set("PAUSED", 7);
+
+      await monitor.startMonitoring();
+
+      expect(capture.starts).toEqual([]);
+      expect(monitor.getSnapshot().suspended).toBe(true);
+      expect(frames()).toHaveLength(2);
+    });
+
+    it("assembles a print that ended while the service was down", async () => {
+      await interruptedPrint();
+      const { monitor, api } = createMonitor();
+      api.set("FINISHED", 7);
+
+      await monitor.startMonitoring();
+
+      expect(assemble).toHaveBeenCalledTimes(1);
+      expect(assemble.mock.calls[0][1]).toMatch(/part7/);
+      expect(frames()).toEqual([]);
+    });
+
+    it("quarantines the frames of another job", async () => {
+      await interruptedPrint();
+      const { monitor, api, capture } = createMonitor();
+      api.set("PRINTING", 8);
+
+      await monitor.startMonitoring();
+
+      const quarantine = join(
+        printer.timelapse.tempDirectory,
+        QUARANTINE_DIRECTORY
+      );
+      const sets = readdirSync(quarantine);
+      expect(sets).toEqual([expect.stringMatching(/_job7$/)]);
+      expect(readdirSync(join(quarantine, sets[0]))).toEqual(
+        expect.arrayContaining(["img_00001.jpg", "img_00002.jpg"])
+      );
+      expect(capture.starts).toEqual([false]);
+      expect(frames()).toEqual(["img_00001.jpg"]);
+      expect(assemble).not.toHaveBeenCalled();
+    });
+
+    it("assembles the frames of another job with orphanPolicy assemble", async () => {
+      printer.timelapse.orphanPolicy = "assemble";
+      await interruptedPrint();
+      const { monitor, api } = createMonitor();
+      api.set("IDLE");
+
+      await monitor.startMonitoring();
+
+      expect(assemble).toHaveBeenCalledTimes(1);
+      expect(assemble.mock.calls[0][1]).toMatch(/part7/);
+      expect(frames()).toEqual([]);
+    });
+
+    it("doesn't resume frames captured with other settings", async () => {
+      await interruptedPrint();
+      printer.timelapse.captureInterval = 20;
+      const { monitor, api, logger } = createMonitor();
+      api.set("PRINTING", 7);
+
+      await monitor.startMonitoring();
+
+      expect(logger.lines).toContain(
+        "Existing frames were captured with different capture settings"
+      );
+      expect(frames()).toEqual(["img_00001.jpg"]);
+    });
+  });
+});
@@ -1,9 +1,52 @@
-import { spawn } from "child_process";
-import { resolve } from "path";
-import { ApiError, PrusaLinkClient } from "../api/client";
-import { assembleVideo, TimelapseCapture } from "../timelapse";
-import { PrinterState } from "../types/api";
-import { AppConfig } from "../types/config";
+import { join, resolve } from "path";
+import {
+  ApiError,
+  ApiErrorKind,
+  PrusaLinkClient,
+  printerModel,
+} from "../api/client";
+import { TimelapseLibrary } from "../library";
+import { Logger } from "../logger";
+import { Notifier } from "../notifier";
+import { renderTemplate, sanitizeFilename, sessionContext } from "../template";
+import { hashCaptureSettings, SessionManifest, SessionStore } from "../session";
+import { buildPrintReport, CaptureStats, writePrintReport } from "../report";
+import {
+  applyRetention,
+  cleanQuarantine,
+  DiskSpaceGuard,
+  DiskSpaceLevel,
+} from "../storage";
+import { sampleFromStatus, TelemetryLog } from "../telemetry";
+import {
+  AssembledVideo,
+  assembleVideo,
+  CaptureSupervisor,
+  chooseCaptureInterval,
+  TimelapseCapture,
+  videoExtension,
+} from "../timelapse";
+import { Job, JobFile, PrinterState, StatusResponse } from "../types/api";
+import { AppConfig, PrinterConfig } from "../types/config";
+import { SessionInfo } from "../types/notification";
+
+// States that end a print and finalize its timelapse
+const FINAL_STATES: PrinterState[] = ["FINISHED", "STOPPED", "ERROR"];
+
+// Subdirectory of the temp directory that receives orphaned frame sets
+export const QUARANTINE_DIRECTORY = "quarantine";
+
+// Minimum Z increase (mm) treated as a new layer
+const LAYER_Z_EPSILON = 0.001;
+
+// Seconds to wait after a finished print before the beauty shot
+const DEFAULT_BEAUTY_SHOT_DELAY = 10;
+
+// Seconds between retention cleanups
+const DEFAULT_RETENTION_INTERVAL = 3600;
+
+// Capture interval multiplier while thinning out capture for disk space
+const DISK_SPACE_THIN_FACTOR = 4;
 
 export class MonitorError extends Error {
   constructor(message: string) {
@@ -12,22 +55,170 @@ export class MonitorError extends Error {
   }
 }
 
+// The capture was finished but no video came out of it
+export class AssemblyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AssemblyError";
+  }
+}
+
+/**
+ * The PrusaLink requests a monitor makes, as a PrusaLinkClient answers them.
+ */
+export type PrinterApi = Pick<
+  PrusaLinkClient,
+  | "getStatus"
+  | "getJob"
+  | "getFile"
+  | "getThumbnail"
+  | "getVersion"
+  | "retryAfter"
+  | "close"
+>;
+
+/**
+ * Collaborators a monitor creates for itself unless they are given, so
+ * tests can stand in for the printer, the camera, ffmpeg and the clock.
+ */
+export interface MonitorDependencies {
+  apiClient?: PrinterApi;
+  capture?: TimelapseCapture;
+  assembleVideo?: typeof assembleVideo;
+  clock?: () => number; // milliseconds, default: Date.now
+}
+
+export interface MonitorSnapshot {
+  printer: string;
+  monitoring: boolean;
+  printerState: PrinterState | null;
+  jobId: number | null;
+  fileName: string | null;
+  capturing: boolean;
+  suspended: boolean; // capture paused along with the print, frames kept
+  captureDegraded: boolean; // capture failed and is being restarted (or given up on)
+  captureRestarts: number; // restarts of the current capture by the supervisor
+  frameCount: number;
+  lastFrame: string | null;
+  watchdogExpiry: string | null; // ISO timestamp
+}
+
+/**
+ * Path of the main video for a session, from outputFilenameTemplate or the
+ * default `<prefix>_<file>_<timestamp>` naming.
+ */
+export function generateOutputPath(
+  printer: PrinterConfig,
+  info: SessionInfo
+): string {
+  const prefix = printer.timelapse.outputPrefix || "timelapse";
+  const template = printer.timelapse.outputFilenameTemplate;
+  const extension = videoExtension(printer.timelapse);
+
+  if (template) {
+    const name = renderTemplate(
+      template,
+      sessionContext(printer.name, info, { prefix }),
+      sanitizeFilename
+    );
+    return resolve(printer.timelapse.outputDirectory, `${name}.${extension}`);
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, -5);
+
+  let filename: string;
+
+  // If we have a print filename, use it (without extension)
+  if (info.fileName) {
+    const printName = info.fileName.replace(/\.[^/.]+$/, "");
+    const sanitizedName = sanitizeFilename(printName);
+    filename = `${prefix}_${sanitizedName}_${timestamp}.${extension}`;
+  } else {
+    // Fallback to date/time only
+    const jobSuffix = info.jobId ? `_job${info.jobId}` : "";
+    filename = `${prefix}_${timestamp}${jobSuffix}.${extension}`;
+  }
+
+  return resolve(printer.timelapse.outputDirectory, filename);
+}
+
 export class PrintMonitor {
   private config: AppConfig;
-  private apiClient: PrusaLinkClient;
+  private printer: PrinterConfig;
+  private logger: Logger;
+  private apiClient: PrinterApi;
   private timelapseCapture: TimelapseCapture;
+  private assemble: typeof assembleVideo;
+  private clock: () => number;
+  private captureSupervisor: CaptureSupervisor;
   private currentPrintId: number | null = null;
   private currentPrintFilename: string | null = null;
+  private currentPrintFile: JobFile | null = null; // file details for the print report
   private isMonitoring = false;
   private monitoringInterval: NodeJS.Timeout | null = null;
   private lastPrinterState: PrinterState | null = null;
   private watchdogExpiry: number | null = null; // timestamp when watchdog expires
   private isFirstCheck = true; // Track if this is the first status check
+  private captureJobId: number | null = null; // Job the current capture session belongs to
+  private isSessionActive = false; // From capture start until the video is finalized or discarded
+  private isSuspended = false; // Capture stopped while the print is paused, frames kept
+  private lastPrintDuration: number | null = null; // job.time_printing from the latest poll
+  private sessionStore: SessionStore;
+  private telemetryLog: TelemetryLog;
+  private library: TimelapseLibrary;
+  private diskSpaceGuard: DiskSpaceGuard | null;
+  private isPausedForSpace = false; // Capture stopped because the temp volume is nearly full
+  private thinnedFromInterval: number | null = null; // Capture interval before thinning for disk space
+  private lastRetentionRun = 0; // timestamp of the last retention cleanup
+  private notifier: Notifier;
+  private sessionStartedAt: string | null = null; // ISO timestamp the capture session began
+  private sessionFirstFrame = 1;
+  private lastLayerZ: number | null = null; // Z height of the last layer grabbed (layer mode)
+  private candidateLayerZ: number | null = null; // Higher Z seen on the last poll, not yet confirmed (layer mode)
+  private layerGrabTimer: NodeJS.Timeout | null = null;
+  private isChecking = false; // A status check (with its retries) is in progress
+  private unreachableSince: number | null = null; // timestamp the first request of an outage failed
+  private lastApiErrorKind: ApiErrorKind | null = null; // Failure of the latest status check
+  private printerModel: string | null = null; // From /api/version, for the video tags
+  private firmwareVersion: string | null = null;
+  private hasPrinterDetails = false;
 
-  constructor(config: AppConfig) {
+  constructor(
+    config: AppConfig,
+    printer: PrinterConfig,
+    logger: Logger = new Logger(),
+    dependencies: MonitorDependencies = {}
+  ) {
     this.config = config;
-    this.apiClient = new PrusaLinkClient(config.prusaLink);
-    this.timelapseCapture = new TimelapseCapture(config.timelapse);
+    this.printer = printer;
+    this.logger = logger;
+    this.apiClient =
+      dependencies.apiClient || new PrusaLinkClient(printer.prusaLink);
+    this.timelapseCapture =
+      dependencies.capture || new TimelapseCapture(printer.timelapse, logger);
+    this.assemble = dependencies.assembleVideo || assembleVideo;
+    this.clock = dependencies.clock || Date.now;
+    this.sessionStore = new SessionStore(printer.timelapse.tempDirectory);
+    this.telemetryLog = new TelemetryLog(printer.timelapse.tempDirectory);
+    this.library = new TimelapseLibrary(printer.timelapse.outputDirectory);
+    this.diskSpaceGuard = printer.timelapse.diskSpace
+      ? new DiskSpaceGuard(
+          printer.timelapse.tempDirectory,
+          printer.timelapse.diskSpace
+        )
+      : null;
+    this.notifier = new Notifier(config.notification, printer.name, logger);
+    this.captureSupervisor = new CaptureSupervisor(
+      this.timelapseCapture,
+      printer.timelapse,
+      logger,
+      (reason) => {
+        this.notifier.notify("capture_degraded", {
+          ...this.sessionInfo(this.captureJobId),
+          error: reason,
+        });
+      }
+    );
   }
 
   async startMonitoring(): Promise<void> {
@@ -35,7 +226,7 @@ export class PrintMonitor {
       throw new MonitorError("Monitoring already started");
     }
 
-    console.log("Starting print monitoring...");
+    this.logger.log("Starting print monitoring...");
     this.isMonitoring = true;
 
     // Initial status check
@@ -44,7 +235,7 @@ export class PrintMonitor {
     // Start periodic monitoring
     this.monitoringInterval = setInterval(() => {
       this.checkStatus().catch((error) => {
-        console.error(`Error during status check: ${error.message}`);
+        this.logger.error(`Error during status check: ${error.message}`);
       });
     }, this.config.pollInterval * 1000);
   }
@@ -54,7 +245,7 @@ export class PrintMonitor {
       return;
     }
 
-    console.log("Stopping print monitoring...");
+    this.logger.log("Stopping print monitoring...");
     this.isMonitoring = false;
 
     if (this.monitoringInterval) {
@@ -62,19 +253,59 @@ export class PrintMonitor {
       this.monitoringInterval = null;
     }
 
+    this.clearLayerTracking();
+
     // Stop any ongoing capture
-    if (this.timelapseCapture.isCurrentlyCapturing()) {
-      await this.stopTimelapseCapture();
+    await this.stopTimelapseCapture();
+
+    this.apiClient.close();
+  }
+
+  /**
+   * Polls the printer once and acts on what it reports. Runs every
+   * pollInterval while monitoring.
+   */
+  async checkStatus(): Promise<void> {
+    // Retries can make a check outlast the poll interval
+    if (this.isChecking) {
+      return;
+    }
+    this.isChecking = true;
+
+    try {
+      if (this.apiClient.retryAfter() > 0) {
+        // The printer is unreachable: don't ask again until the circuit
+        // breaker allows it, but keep the local checks going
+        this.checkWatchdog();
+      } else {
+        await this.pollPrinter();
+      }
+
+      // Capture keeps filling the disk while the printer is unreachable
+      await this.checkDiskSpace();
+      this.runRetentionIfDue();
+    } finally {
+      this.isChecking = false;
     }
   }
 
-  private async checkStatus(): Promise<void> {
+  private async pollPrinter(): Promise<void> {
     try {
       const status = await this.apiClient.getStatus();
       const currentState = status.printer.state;
       const currentJobId = status.job?.id || null;
 
-      console.log(`Printer state: ${currentState}, Job ID: ${currentJobId}`);
+      if (this.unreachableSince !== null) {
+        this.logger.log(
+          `PrusaLink reachable again after ${Math.round(
+            (this.clock() - this.unreachableSince) / 1000
+          )}s`
+        );
+        this.unreachableSince = null;
+      }
+      this.lastApiErrorKind = null;
+
+      this.logger.log(`Printer state: ${currentState}, Job ID: ${currentJobId}`);
 
       // Check for state transitions
       const previousState = this.lastPrinterState;
@@ -83,23 +314,8 @@ export class PrintMonitor {
       if (this.isFirstCheck) {
         this.isFirstCheck = false;
 
-        if (currentState === "PRINTING" && currentJobId !== null) {
-          // First check shows PRINTING - check if we can resume
-          if (this.timelapseCapture.canResume()) {
-            console.log("Startup detected PRINTING state with existing frames - resuming capture");
-            await this.handlePrintStarted(currentJobId, true);
-          } else {
-            console.log("Startup detected PRINTING state but no existing frames - starting fresh capture");
-            await this.handlePrintStarted(currentJobId, false);
-          }
-        } else {
-          // First check is non-PRINTING - clear any stale frames from previous runs
-          if (this.timelapseCapture.canResume()) {
-            console.log("Startup detected non-PRINTING state - clearing stale frames from previous run");
-            this.timelapseCapture.clearFrames();
-          }
-        }
-      } else {
+        await this.handleStartup(currentState, currentJobId);
+      } else if (!this.hasActiveSession()) {
         // Normal state transition handling (not first check)
 
         // Print started
@@ -113,15 +329,51 @@ export class PrintMonitor {
         }
         // Print finished/stopped - any transition from PRINTING to non-PRINTING
         else if (previousState === "PRINTING" && currentState !== "PRINTING") {
-          await this.handlePrintFinished(currentJobId);
+          await this.handlePrintFinished(currentJobId, currentState);
         }
-        // If we're currently capturing and see PRINTING state, reset watchdog
-        else if (
-          this.timelapseCapture.isCurrentlyCapturing() &&
-          currentState === "PRINTING"
-        ) {
+      } else if (
+        FINAL_STATES.includes(currentState) ||
+        currentJobId !== this.captureJobId
+      ) {
+        // Print ended, or a different job replaced it - finalize the video
+        await this.handlePrintFinished(
+          this.captureJobId,
+          FINAL_STATES.includes(currentState) ? currentState : null
+        );
+
+        if (currentState === "PRINTING" && currentJobId !== null) {
+          await this.handlePrintStarted(currentJobId, false);
+        }
+      } else if (currentState === "PRINTING") {
+        if (this.isSuspended) {
+          await this.handlePrintResumed();
+        } else {
+          // If we're currently capturing and see PRINTING state, reset watchdog
           this.resetWatchdog();
         }
+      } else if (this.isSuspendState(currentState) && !this.isSuspended) {
+        await this.handlePrintPaused(currentState);
+      }
+      // Other states (e.g. BUSY) keep capturing; the watchdog covers hangs
+
+      // Remember how long the job has been printing for templates and events
+      if (this.hasActiveSession() && status.job?.time_printing !== undefined) {
+        this.lastPrintDuration = status.job.time_printing;
+      }
+
+      // Record printer readings for the overlay and the print report (pauses
+      // included)
+      if (this.hasActiveSession()) {
+        this.recordTelemetry(status);
+      }
+
+      // Layer mode: grab a frame whenever Z moves up to a new layer
+      if (
+        currentState === "PRINTING" &&
+        this.timelapseCapture.isCurrentlyCapturing() &&
+        this.timelapseCapture.getMode() === "layer"
+      ) {
+        this.handleLayerChange(status.printer.axis_z);
       }
 
       this.lastPrinterState = currentState;
@@ -129,11 +381,14 @@ export class PrintMonitor {
 
       // Check watchdog after processing status
       this.checkWatchdog();
+
+      // Keep the session manifest current for crash-safe resume
+      this.persistSession();
     } catch (error) {
       if (error instanceof ApiError) {
-        console.error(`API Error: ${error.message}`);
+        this.handleApiError(error);
       } else {
-        console.error(`Unexpected error: ${(error as Error).message}`);
+        this.logger.error(`Unexpected error: ${(error as Error).message}`);
       }
       // Continue monitoring despite errors
 
@@ -142,12 +397,273 @@ export class PrintMonitor {
     }
   }
 
-  private async handlePrintStarted(jobId: number, shouldResume: boolean = false): Promise<void> {
-    console.log(`Print started (Job ID: ${jobId})`);
+  private handleApiError(error: ApiError): void {
+    const repeated = this.lastApiErrorKind === error.kind;
+    this.lastApiErrorKind = error.kind;
+
+    switch (error.kind) {
+      case "network":
+      case "timeout": {
+        // Capture goes on; the video is finalized once the printer is back
+        if (this.unreachableSince === null) {
+          this.unreachableSince = this.clock();
+        }
+        const retryAfter = this.apiClient.retryAfter();
+        this.logger.warn(
+          retryAfter > 0
+            ? `PrusaLink unreachable (${
+                error.message
+              }), checking again in ${Math.ceil(retryAfter / 1000)}s`
+            : `PrusaLink unreachable: ${error.message}`
+        );
+        break;
+      }
+      case "auth":
+        // Credentials don't fix themselves; say it once instead of every poll
+        if (!repeated) {
+          this.logger.error(`API Error: ${error.message}`);
+        }
+        break;
+      default:
+        this.logger.error(`API Error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Decides what to do with frames left over from a previous run. They are
+   * only resumed when the session manifest matches the job printing now;
+   * anything else is treated as an orphaned session.
+   */
+  private async handleStartup(
+    state: PrinterState,
+    jobId: number | null
+  ): Promise<void> {
+    const manifest = this.sessionStore.read();
+
+    if (!this.timelapseCapture.canResume()) {
+      if (manifest) {
+        this.sessionStore.clear();
+        this.telemetryLog.clear();
+      }
+      if (state === "PRINTING" && jobId !== null) {
+        this.logger.log("Startup detected PRINTING state but no existing frames - starting fresh capture");
+        await this.handlePrintStarted(jobId, false);
+      }
+      return;
+    }
+
+    if (manifest && this.isSessionForJob(manifest, jobId)) {
+      await this.restoreSession(manifest, state);
+      return;
+    }
+
+    await this.handleOrphanedSession(manifest);
+
+    if (state === "PRINTING" && jobId !== null) {
+      await this.handlePrintStarted(jobId, false);
+    }
+  }
+
+  private isSessionForJob(
+    manifest: SessionManifest,
+    jobId: number | null
+  ): boolean {
+    if (manifest.jobId === null || manifest.jobId !== jobId) {
+      this.logger.log(
+        `Existing frames belong to job ${manifest.jobId}, current job is ${jobId}`
+      );
+      return false;
+    }
+
+    if (manifest.configHash !== hashCaptureSettings(this.printer.timelapse)) {
+      this.logger.log(
+        "Existing frames were captured with different capture settings"
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  private async restoreSession(
+    manifest: SessionManifest,
+    state: PrinterState
+  ): Promise<void> {
+    const frameInfo = this.timelapseCapture.getFrameInfo();
+    this.logger.log(
+      `Startup found session for job ${manifest.jobId} (${frameInfo.count} frames, started ${manifest.startedAt})`
+    );
+
+    this.captureJobId = manifest.jobId;
+    this.currentPrintFilename = manifest.fileName;
+    this.sessionStartedAt = manifest.startedAt;
+    this.isSessionActive = true;
+    this.timelapseCapture.setCaptureInterval(
+      manifest.captureInterval || this.printer.timelapse.captureInterval
+    );
+
+    if (FINAL_STATES.includes(state)) {
+      // Print ended while the service was down - restore as suspended so the
+      // frames are assembled like any other finished session
+      this.logger.log(`Startup detected ${state} state - assembling session`);
+      this.isSuspended = true;
+      await this.handlePrintFinished(manifest.jobId, state);
+    } else if (this.isSuspendState(state)) {
+      this.logger.log(
+        `Startup detected ${state} state - keeping frames until the print resumes`
+      );
+      this.isSuspended = true;
+    } else {
+      this.logger.log(
+        `Startup detected ${state} state with existing frames - resuming capture`
+      );
+      await this.handlePrintStarted(manifest.jobId, true);
+
+      // Couldn't restart the capture - keep the session suspended so the
+      // next PRINTING poll retries instead of losing it
+      if (!this.timelapseCapture.isCurrentlyCapturing()) {
+        this.isSuspended = true;
+        return;
+      }
+
+      // Only PRINTING proves the print is alive, else keep the old deadline
+      if (state !== "PRINTING" && manifest.watchdogExpiry) {
+        this.watchdogExpiry = Date.parse(manifest.watchdogExpiry);
+      }
+    }
+  }
+
+  private async handleOrphanedSession(
+    manifest: SessionManifest | null
+  ): Promise<void> {
+    const frameInfo = this.timelapseCapture.getFrameInfo();
+    const jobId = manifest ? manifest.jobId : null;
+    const policy = this.printer.timelapse.orphanPolicy || "quarantine";
+
+    this.logger.warn(
+      `Found ${frameInfo.count} frames from a previous session (Job ID: ${jobId}) that don't belong to the current print`
+    );
+
+    if (policy === "assemble") {
+      const info: SessionInfo = {
+        jobId,
+        fileName: manifest ? manifest.fileName : null,
+        printerHost: this.printer.prusaLink.host,
+        startedAt: manifest ? manifest.startedAt : null,
+        finishedAt: new Date(this.clock()).toISOString(),
+        printDuration: null,
+        frameCount: frameInfo.count,
+        finalState: null,
+      };
+
+      try {
+        const outputPath = generateOutputPath(this.printer, info);
+        await this.loadPrinterDetails();
+        const video = await this.assemble(
+          this.printer.timelapse,
+          outputPath,
+          sessionContext(this.printer.name, info),
+          this.videoMetadata(info),
+          this.logger
+        );
+        this.addToLibrary(info, video);
+        this.timelapseCapture.clearFrames();
+        this.sessionStore.clear();
+        this.telemetryLog.clear();
+        this.logger.log(`Orphaned session assembled: ${outputPath}`);
+
+        await this.notifier.notify("timelapse_completed", {
+          ...info,
+          outputPath,
+          outputPaths: video.outputPaths,
+          outputDir: this.printer.timelapse.outputDirectory,
+        });
+        return;
+      } catch (error) {
+        this.logger.error(
+          `Failed to assemble orphaned session, quarantining it instead: ${
+            (error as Error).message
+          }`
+        );
+        this.notifier.notify("assembly_failed", {
+          ...info,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    this.quarantineSession(jobId);
+  }
+
+  private quarantineSession(jobId: number | null): void {
+    const timestamp = new Date(this.clock())
+      .toISOString()
+      .replace(/[:.]/g, "-")
+      .slice(0, -5);
+    const jobSuffix = jobId ? `_job${jobId}` : "";
+    const targetDir = join(
+      resolve(this.printer.timelapse.tempDirectory),
+      QUARANTINE_DIRECTORY,
+      `${timestamp}${jobSuffix}`
+    );
+
+    try {
+      const movedCount = this.timelapseCapture.moveFrames(targetDir);
+      this.sessionStore.moveTo(targetDir);
+      this.telemetryLog.moveTo(targetDir);
+      this.logger.warn(`Quarantined ${movedCount} frames to ${targetDir}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to quarantine frames: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private recordTelemetry(status: StatusResponse): void {
+    try {
+      this.telemetryLog.append(
+        sampleFromStatus(status, this.timelapseCapture.getHighestFrameNumber())
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to record telemetry: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private persistSession(): void {
+    if (!this.hasActiveSession() || this.sessionStartedAt === null) {
+      return;
+    }
+
+    try {
+      this.sessionStore.write({
+        jobId: this.captureJobId,
+        fileName: this.currentPrintFilename,
+        startedAt: this.sessionStartedAt,
+        firstFrame: this.sessionFirstFrame,
+        lastFrame: this.timelapseCapture.getHighestFrameNumber(),
+        suspended: this.isSuspended,
+        watchdogExpiry:
+          this.watchdogExpiry !== null
+            ? new Date(this.watchdogExpiry).toISOString()
+            : null,
+        configHash: hashCaptureSettings(this.printer.timelapse),
+        captureInterval: this.timelapseCapture.getCaptureInterval(),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to write session manifest: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handlePrintStarted(jobId: number | null, shouldResume: boolean = false): Promise<void> {
+    this.logger.log(`Print started (Job ID: ${jobId})`);
 
     // Reject if already capturing (shouldn't happen, but safety check)
     if (this.timelapseCapture.isCurrentlyCapturing()) {
-      console.warn(
+      this.logger.warn(
         "Timelapse capture already in progress, rejecting new print"
       );
       return;
@@ -156,148 +672,657 @@ export class PrintMonitor {
     try {
       // Fetch full job details to get the filename
       const job = await this.apiClient.getJob();
+      this.currentPrintFile = job?.file || null;
       if (job && job.file && job.file.display_name) {
         this.currentPrintFilename = job.file.display_name;
-        console.log(`Print file: ${this.currentPrintFilename}`);
+        this.logger.log(`Print file: ${this.currentPrintFilename}`);
       } else {
-        console.log("No file information available for this job");
+        this.logger.log("No file information available for this job");
       }
 
       // Log resume status
       if (shouldResume && this.timelapseCapture.canResume()) {
         const frameInfo = this.timelapseCapture.getFrameInfo();
-        console.log(
+        this.logger.log(
           `Resuming timelapse capture - ${frameInfo.count} frames already captured (last: ${frameInfo.lastFrame})`
         );
       } else if (!shouldResume) {
+        // Frames with a manifest are a session whose assembly failed - don't
+        // silently delete them
+        const manifest = this.sessionStore.read();
+        if (manifest && this.timelapseCapture.canResume()) {
+          await this.handleOrphanedSession(manifest);
+        }
+
         // Clear any existing frames since we're starting fresh
         this.timelapseCapture.clearFrames();
+        this.sessionStore.clear();
+        this.telemetryLog.clear();
+
+        // Spread the frames over the estimated print time (autoCaptureInterval)
+        const timeRemaining = job ? job.time_remaining : undefined;
+        const interval = chooseCaptureInterval(
+          this.printer.timelapse,
+          timeRemaining
+        );
+        this.timelapseCapture.setCaptureInterval(interval);
+        this.thinnedFromInterval = null;
+        if (interval !== this.printer.timelapse.captureInterval) {
+          this.logger.log(
+            `Capture interval set to ${interval}s for ${timeRemaining}s remaining print time`
+          );
+        }
       }
 
       await this.timelapseCapture.startCapture(shouldResume);
-      console.log("Timelapse capture started");
+      this.captureSupervisor.start();
+      this.captureJobId = jobId;
+      this.isSessionActive = true;
+      this.logger.log("Timelapse capture started");
+
+      // A resumed session keeps its original start time and first frame
+      if (!shouldResume || this.sessionStartedAt === null) {
+        this.sessionStartedAt = new Date(this.clock()).toISOString();
+        this.sessionFirstFrame =
+          this.timelapseCapture.getHighestFrameNumber() + 1;
+      }
 
       // Start watchdog if enabled
       this.startWatchdog(jobId);
+      this.persistSession();
+
+      // Don't hold up monitoring while notifications are delivered
+      if (!shouldResume) {
+        this.notifier.notify("print_started", this.sessionInfo(jobId));
+      }
+
+      await this.savePoster(job);
+      await this.loadPrinterDetails();
     } catch (error) {
-      console.error(
+      this.logger.error(
         `Failed to start timelapse capture: ${(error as Error).message}`
       );
+      this.notifier.notify("capture_failed", {
+        ...this.sessionInfo(jobId),
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Saves the G-code thumbnail of the print as the video's poster
+   * (thumbnail: "gcode"). Without it the library falls back to the last
+   * frame.
+   */
+  private async savePoster(job: Job | null): Promise<void> {
+    if (
+      this.printer.timelapse.thumbnail !== "gcode" ||
+      this.timelapseCapture.getPosterPath() !== null
+    ) {
+      return;
+    }
+
+    try {
+      let ref = job?.file?.refs?.thumbnail;
+      if (!ref && job?.file) {
+        const file = await this.apiClient.getFile(
+          `${job.file.path.replace(/\/$/, "")}/${job.file.name}`
+        );
+        ref = file.refs?.thumbnail;
+      }
+      if (!ref) {
+        this.logger.log("Print file has no thumbnail, the last frame is used");
+        return;
+      }
+      const image = await this.apiClient.getThumbnail(ref);
+      if (!this.timelapseCapture.savePoster(image)) {
+        this.logger.warn(
+          "G-code thumbnail is neither PNG nor JPEG, the last frame is used"
+        );
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to fetch the G-code thumbnail: ${(error as Error).message}`
+      );
     }
   }
 
-  private async handlePrintFinished(jobId: number | null): Promise<void> {
-    console.log(`Print finished (Job ID: ${jobId})`);
+  // Model and firmware version for the video tags, read once per run
+  private async loadPrinterDetails(): Promise<void> {
+    if (this.hasPrinterDetails) {
+      return;
+    }
+    try {
+      const version = await this.apiClient.getVersion();
+      this.printerModel = printerModel(version);
+      this.firmwareVersion = version.firmware || null;
+      this.hasPrinterDetails = true;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to read the printer version: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Tags written into the videos: the print file as title, and the printer
+   * model and firmware version.
+   */
+  private videoMetadata(info: SessionInfo): Record<string, string> {
+    const metadata: Record<string, string> = {};
+    if (info.fileName) {
+      metadata.title = info.fileName;
+    }
+    if (this.printerModel) {
+      metadata.printer_model = this.printerModel;
+      metadata.comment = `Printed on ${this.printerModel}${
+        this.firmwareVersion ? ` (firmware ${this.firmwareVersion})` : ""
+      }`;
+    }
+    if (this.firmwareVersion) {
+      metadata.firmware_version = this.firmwareVersion;
+    }
+    return metadata;
+  }
+
+  // Returns the error that kept the video from being made, null otherwise
+  private async handlePrintFinished(
+    jobId: number | null,
+    finalState: PrinterState | null = null
+  ): Promise<Error | null> {
+    this.logger.log(`Print finished (Job ID: ${jobId})`);
+
+    // Snapshot the session before its state is reset below
+    const info = this.sessionInfo(
+      jobId,
+      new Date(this.clock()).toISOString(),
+      finalState
+    );
 
     // Clear watchdog since printing finished normally
     this.clearWatchdog();
+    this.clearLayerTracking();
 
-    if (!this.timelapseCapture.isCurrentlyCapturing()) {
-      console.log("No active timelapse capture to stop");
+    // Read before the supervisor is stopped
+    const captureStats = this.captureStats();
+
+    const wasActive = this.isSessionActive;
+    this.isSessionActive = false;
+    this.isSuspended = false;
+    this.isPausedForSpace = false;
+    this.thinnedFromInterval = null;
+    this.captureJobId = null;
+    this.sessionStartedAt = null;
+    this.lastPrintDuration = null;
+
+    if (!wasActive) {
+      this.logger.log("No active timelapse capture to stop");
       this.currentPrintFilename = null;
-      return;
+      this.currentPrintFile = null;
+      return null;
     }
 
+    const outputPath = generateOutputPath(this.printer, info);
     try {
-      // Stop capture
+      // Stop capture (a suspended session or a failed capture has no process
+      // left, but its frames are still assembled)
       await this.stopTimelapseCapture();
 
+      if (
+        finalState === "FINISHED" &&
+        this.printer.timelapse.postProcess?.beautyShot
+      ) {
+        await this.takeBeautyShot();
+      }
+
       // Assemble video
-      const outputPath = this.generateOutputPath(jobId);
-      await assembleVideo(this.config.timelapse, outputPath);
+      const video = await this.assemble(
+        this.printer.timelapse,
+        outputPath,
+        sessionContext(this.printer.name, info),
+        this.videoMetadata(info),
+        this.logger
+      );
+      this.writeReport(info, captureStats, outputPath, video.outputPaths, null);
+      this.addToLibrary(info, video);
+      this.runRetention();
 
       // Clear temp directory after successful video assembly
       this.timelapseCapture.clearFrames();
+      this.sessionStore.clear();
+      this.telemetryLog.clear();
 
       // Send notification
-      await this.sendNotification(outputPath);
+      await this.notifier.notify("timelapse_completed", {
+        ...info,
+        outputPath,
+        outputPaths: video.outputPaths,
+        outputDir: this.printer.timelapse.outputDirectory,
+      });
 
-      console.log(`Timelapse completed: ${outputPath}`);
+      this.logger.log(`Timelapse completed: ${outputPath}`);
+      return null;
     } catch (error) {
-      console.error(
+      this.logger.error(
         `Error during timelapse completion: ${(error as Error).message}`
       );
-      // Note: We don't clear frames on error so they can be recovered manually
+      this.notifier.notify("assembly_failed", {
+        ...info,
+        error: (error as Error).message,
+      });
+      this.writeReport(
+        info,
+        captureStats,
+        outputPath,
+        [],
+        (error as Error).message
+      );
+      // Note: We don't clear frames on error so they can be recovered manually.
+      // The manifest stays too, so the next startup treats them as orphaned.
+      return error as Error;
     } finally {
       // Always clear filename after print finishes
       this.currentPrintFilename = null;
+      this.currentPrintFile = null;
     }
   }
 
-  private async stopTimelapseCapture(): Promise<void> {
+  private captureStats(): CaptureStats {
+    return {
+      mode: this.timelapseCapture.getMode(),
+      captureInterval: this.timelapseCapture.getCaptureInterval(),
+      frameCount: this.timelapseCapture.getCapturedFrameCount(),
+      restarts: this.captureSupervisor.getRestartCount(),
+      degraded: this.captureSupervisor.isCaptureDegraded(),
+    };
+  }
+
+  /**
+   * Writes the JSON and CSV print report next to the video. A failed write is
+   * logged but doesn't affect the timelapse.
+   */
+  private writeReport(
+    info: SessionInfo,
+    capture: CaptureStats,
+    outputPath: string,
+    outputPaths: string[],
+    error: string | null
+  ): void {
+    if (this.printer.timelapse.report === false) {
+      return;
+    }
+
     try {
-      await this.timelapseCapture.stopCapture();
-      console.log("Timelapse capture stopped");
+      const report = buildPrintReport({
+        printer: this.printer.name,
+        info,
+        file: this.currentPrintFile,
+        capture,
+        outputPaths,
+        error,
+        samples: this.telemetryLog.read(),
+      });
+      const [jsonPath, csvPath] = writePrintReport(report, outputPath);
+      this.logger.log(`Print report written: ${jsonPath}, ${csvPath}`);
     } catch (error) {
-      console.error(
-        `Error stopping timelapse capture: ${(error as Error).message}`
+      this.logger.error(
+        `Failed to write print report: ${(error as Error).message}`
       );
-      throw error;
     }
   }
 
-  private generateOutputPath(jobId: number | null): string {
-    const timestamp = new Date()
-      .toISOString()
-      .replace(/[:.]/g, "-")
-      .slice(0, -5);
-    
-    let filename: string;
-    
-    // If we have a print filename, use it (without extension)
-    if (this.currentPrintFilename) {
-      const printName = this.currentPrintFilename.replace(/\.[^/.]+$/, "");
-      const sanitizedName = printName.replace(/[<>:"/\\|?*]/g, "_");
-      filename = `timelapse_${sanitizedName}_${timestamp}.mp4`;
-    } else {
-      // Fallback to date/time only
-      const jobSuffix = jobId ? `_job${jobId}` : "";
-      filename = `timelapse_${timestamp}${jobSuffix}.mp4`;
+  /**
+   * Adds an assembled video to the library, with the poster or the last
+   * frame as its thumbnail, so it must run before the frames are cleared. A
+   * failure is logged but doesn't affect the timelapse.
+   */
+  private addToLibrary(info: SessionInfo, video: AssembledVideo): void {
+    try {
+      this.library.addVideo(
+        this.printer.name,
+        info,
+        video,
+        this.timelapseCapture
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to add timelapse to the library: ${(error as Error).message}`
+      );
     }
-    
-    return resolve(this.config.timelapse.outputDirectory, filename);
   }
 
-  private async sendNotification(outputPath: string): Promise<void> {
-    try {
-      // Execute the configured notification command
-      const command = this.config.notification.command
-        .replace("{outputPath}", outputPath)
-        .replace("{outputDir}", this.config.timelapse.outputDirectory);
-
-      console.log(`Executing notification command: ${command}`);
+  /**
+   * Warns when the temp volume runs low and, below the minimum, pauses the
+   * capture or thins it out (diskSpace.action) until space is freed.
+   */
+  private async checkDiskSpace(): Promise<void> {
+    if (!this.diskSpaceGuard) {
+      return;
+    }
 
-      await new Promise<void>((resolve, reject) => {
-        const child = spawn(command, { shell: true, stdio: "inherit" });
+    const previous = this.diskSpaceGuard.getLevel();
+    let level: DiskSpaceLevel;
+    let freeBytes: number;
+    try {
+      ({ level, freeBytes } = this.diskSpaceGuard.check());
+    } catch (error) {
+      this.logger.error(
+        `Failed to check free disk space: ${(error as Error).message}`
+      );
+      return;
+    }
 
-        child.on("error", (error) => {
-          reject(
-            new MonitorError(`Notification command failed: ${error.message}`)
-          );
+    const freeMb = Math.round(freeBytes / 1048576);
+    if (level !== previous) {
+      if (level === "ok") {
+        this.logger.log(`Disk space recovered (${freeMb} MB free)`);
+      } else if (level === "critical" || previous === "ok") {
+        const message = `Only ${freeMb} MB free in ${this.printer.timelapse.tempDirectory}`;
+        this.logger.warn(message);
+        this.notifier.notify("disk_space_low", {
+          ...this.sessionInfo(this.captureJobId),
+          error: message,
         });
+      }
+    }
 
-        child.on("exit", (code) => {
-          if (code === 0) {
-            resolve();
-          } else {
-            reject(
-              new MonitorError(`Notification command exited with code ${code}`)
+    const isCritical = level === "critical";
+    try {
+      switch (this.printer.timelapse.diskSpace?.action || "pause") {
+        case "pause":
+          if (isCritical && this.timelapseCapture.isCurrentlyCapturing()) {
+            this.logger.warn("Pausing capture until disk space is freed");
+            await this.stopTimelapseCapture();
+            this.isPausedForSpace = true;
+          } else if (!isCritical && this.isPausedForSpace) {
+            this.isPausedForSpace = false;
+            if (this.hasActiveSession() && !this.isSuspended) {
+              this.logger.log("Resuming capture");
+              await this.restartCapture();
+            }
+          }
+          break;
+        case "thin":
+          if (
+            isCritical &&
+            this.thinnedFromInterval === null &&
+            this.timelapseCapture.isCurrentlyCapturing() &&
+            this.timelapseCapture.getMode() !== "layer"
+          ) {
+            const interval = this.timelapseCapture.getCaptureInterval();
+            this.thinnedFromInterval = interval;
+            this.timelapseCapture.setCaptureInterval(
+              interval * DISK_SPACE_THIN_FACTOR
             );
+            this.logger.warn(
+              `Thinning out capture to one frame every ${
+                interval * DISK_SPACE_THIN_FACTOR
+              }s until disk space is freed`
+            );
+            await this.restartCapture();
+          } else if (!isCritical && this.thinnedFromInterval !== null) {
+            this.timelapseCapture.setCaptureInterval(this.thinnedFromInterval);
+            this.thinnedFromInterval = null;
+            this.logger.log(
+              `Capture interval restored to ${this.timelapseCapture.getCaptureInterval()}s`
+            );
+            if (this.timelapseCapture.isCurrentlyCapturing()) {
+              await this.restartCapture();
+            }
           }
-        });
+          break;
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to adjust capture for disk space: ${(error as Error).message}`
+      );
+    }
+  }
+
+  // Restarts the capture, continuing the frame sequence with the current
+  // capture interval
+  private async restartCapture(): Promise<void> {
+    await this.stopTimelapseCapture();
+    await this.timelapseCapture.startCapture(true);
+    this.captureSupervisor.start();
+  }
+
+  private runRetentionIfDue(): void {
+    const interval =
+      this.printer.timelapse.retention?.interval ?? DEFAULT_RETENTION_INTERVAL;
+    if (this.clock() - this.lastRetentionRun >= interval * 1000) {
+      this.runRetention();
+    }
+  }
+
+  /**
+   * Deletes old timelapses and quarantined frame sets according to the
+   * retention policy.
+   */
+  private runRetention(): void {
+    const retention = this.printer.timelapse.retention;
+    if (!retention) {
+      return;
+    }
+    this.lastRetentionRun = this.clock();
+
+    try {
+      if (
+        retention.maxAgeDays ||
+        retention.maxCount ||
+        retention.maxTotalBytes
+      ) {
+        applyRetention(this.library, this.printer.name, retention, this.logger);
+      }
+      if (retention.quarantineMaxAgeDays !== undefined) {
+        cleanQuarantine(
+          join(
+            resolve(this.printer.timelapse.tempDirectory),
+            QUARANTINE_DIRECTORY
+          ),
+          retention.quarantineMaxAgeDays,
+          this.logger
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Retention cleanup failed: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handlePrintPaused(state: PrinterState): Promise<void> {
+    this.logger.log(
+      `Print ${state} (Job ID: ${this.captureJobId}) - suspending capture`
+    );
+
+    // The watchdog only guards running captures; it restarts on resume
+    this.clearWatchdog();
+    this.clearLayerTracking();
+
+    try {
+      await this.stopTimelapseCapture();
+      this.isSuspended = true;
+      this.persistSession();
+      const frameInfo = this.timelapseCapture.getFrameInfo();
+      this.logger.log(
+        `Capture suspended - keeping ${frameInfo.count} frames until the print resumes`
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to suspend timelapse capture: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handlePrintResumed(): Promise<void> {
+    this.logger.log(
+      `Print resumed (Job ID: ${this.captureJobId}) - resuming capture`
+    );
+
+    try {
+      // Low disk space keeps the capture stopped until it recovers
+      if (!this.isPausedForSpace) {
+        await this.timelapseCapture.startCapture(true);
+        this.captureSupervisor.start();
+      }
+      this.isSuspended = false;
+      this.startWatchdog(this.captureJobId);
+    } catch (error) {
+      // Stay suspended so the next PRINTING poll retries
+      this.logger.error(
+        `Failed to resume timelapse capture: ${(error as Error).message}`
+      );
+      this.notifier.notify("capture_failed", {
+        ...this.sessionInfo(this.captureJobId),
+        error: (error as Error).message,
       });
+    }
+  }
+
+  /**
+   * Waits for the toolhead to park after a finished print, then grabs the
+   * still shown at the end of the video. Failure only loses the shot.
+   */
+  private async takeBeautyShot(): Promise<void> {
+    const delay =
+      this.printer.timelapse.postProcess?.beautyShot?.delay ??
+      DEFAULT_BEAUTY_SHOT_DELAY;
+    this.logger.log(`Taking beauty shot in ${delay}s`);
+    await new Promise((resolve) => setTimeout(resolve, delay * 1000));
+
+    try {
+      const shotPath = await this.timelapseCapture.captureBeautyShot();
+      this.logger.log(`Beauty shot captured: ${shotPath}`);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to capture beauty shot, ending on the last frame: ${
+          (error as Error).message
+        }`
+      );
+    }
+  }
+
+  private isSuspendState(state: PrinterState): boolean {
+    return (
+      state === "PAUSED" ||
+      (state === "ATTENTION" &&
+        this.printer.timelapse.pauseOnAttention === true)
+    );
+  }
+
+  // A session stays active while suspended for a pause and while a failed
+  // capture is being restarted, so its frames are still assembled at the end
+  private hasActiveSession(): boolean {
+    return this.isSessionActive;
+  }
+
+  private handleLayerChange(axisZ: number | undefined): void {
+    if (axisZ === undefined) {
+      return;
+    }
+
+    // Only count upward moves so Z-hops back down don't trigger extra frames
+    if (
+      this.lastLayerZ !== null &&
+      axisZ <= this.lastLayerZ + LAYER_Z_EPSILON
+    ) {
+      this.candidateLayerZ = null;
+      return;
+    }
+
+    // A poll can land in the middle of a Z-hop; only a height seen on two
+    // polls in a row is a layer, so a hop can't lift the baseline above the
+    // layers still to come
+    if (
+      this.candidateLayerZ === null ||
+      Math.abs(axisZ - this.candidateLayerZ) > LAYER_Z_EPSILON
+    ) {
+      this.candidateLayerZ = axisZ;
+      return;
+    }
+
+    // A grab is already scheduled for the previous change and covers this one
+    if (this.layerGrabTimer) {
+      return;
+    }
+
+    this.lastLayerZ = axisZ;
+    this.candidateLayerZ = null;
+    const settleDelay = this.printer.timelapse.layerSettleDelay || 0;
+
+    this.layerGrabTimer = setTimeout(() => {
+      this.layerGrabTimer = null;
+      if (!this.timelapseCapture.isCurrentlyCapturing()) {
+        return;
+      }
+      this.timelapseCapture
+        .captureFrame()
+        .then((framePath) => {
+          this.logger.log(`Layer frame captured at Z=${axisZ}: ${framePath}`);
+        })
+        .catch((error) => {
+          this.logger.error(`Failed to capture layer frame: ${error.message}`);
+        });
+    }, settleDelay * 1000);
+  }
+
+  private clearLayerTracking(): void {
+    if (this.layerGrabTimer) {
+      clearTimeout(this.layerGrabTimer);
+      this.layerGrabTimer = null;
+    }
+    this.lastLayerZ = null;
+    this.candidateLayerZ = null;
+  }
+
+  private async stopTimelapseCapture(): Promise<void> {
+    // Stop supervising first so a pending restart can't revive the capture
+    await this.captureSupervisor.stop();
+    if (!this.timelapseCapture.isCurrentlyCapturing()) {
+      return;
+    }
 
-      console.log("Notification sent successfully");
+    try {
+      await this.timelapseCapture.stopCapture();
+      this.logger.log("Timelapse capture stopped");
     } catch (error) {
-      console.error(`Failed to send notification: ${(error as Error).message}`);
-      // Don't throw - notification failure shouldn't stop the process
+      this.logger.error(
+        `Error stopping timelapse capture: ${(error as Error).message}`
+      );
+      throw error;
     }
   }
 
+  private sessionInfo(
+    jobId: number | null,
+    finishedAt: string | null = null,
+    finalState: PrinterState | null = null
+  ): SessionInfo {
+    return {
+      jobId,
+      fileName: this.currentPrintFilename,
+      printerHost: this.printer.prusaLink.host,
+      startedAt: this.sessionStartedAt,
+      finishedAt,
+      printDuration: this.lastPrintDuration,
+      frameCount: this.timelapseCapture.getCapturedFrameCount(),
+      finalState,
+    };
+  }
+
   isCurrentlyMonitoring(): boolean {
     return this.isMonitoring;
   }
 
+  getPrinterName(): string {
+    return this.printer.name;
+  }
+
+  getLibrary(): TimelapseLibrary {
+    return this.library;
+  }
+
   getCurrentPrintId(): number | null {
     return this.currentPrintId;
   }
@@ -306,49 +1331,131 @@ export class PrintMonitor {
     return this.timelapseCapture.isCurrentlyCapturing();
   }
 
-  private startWatchdog(jobId: number): void {
+  getSnapshot(): MonitorSnapshot {
+    const frameInfo = this.timelapseCapture.getFrameInfo();
+    return {
+      printer: this.printer.name,
+      monitoring: this.isMonitoring,
+      printerState: this.lastPrinterState,
+      jobId: this.currentPrintId,
+      fileName: this.currentPrintFilename,
+      capturing: this.timelapseCapture.isCurrentlyCapturing(),
+      suspended: this.isSuspended,
+      captureDegraded: this.captureSupervisor.isCaptureDegraded(),
+      captureRestarts: this.captureSupervisor.getRestartCount(),
+      frameCount: frameInfo.count,
+      lastFrame: frameInfo.lastFrame,
+      watchdogExpiry:
+        this.watchdogExpiry !== null
+          ? new Date(this.watchdogExpiry).toISOString()
+          : null,
+    };
+  }
+
+  /**
+   * Starts a capture for the current job regardless of printer state.
+   * Existing frames are cleared, as for a fresh print.
+   */
+  async forceStartCapture(): Promise<void> {
+    if (this.hasActiveSession()) {
+      throw new MonitorError("Timelapse capture already in progress");
+    }
+
+    this.logger.log("Forced capture start requested");
+    await this.handlePrintStarted(this.currentPrintId, false);
+
+    if (!this.timelapseCapture.isCurrentlyCapturing()) {
+      throw new MonitorError("Failed to start timelapse capture");
+    }
+  }
+
+  /**
+   * Stops the active capture and assembles the video as if the print finished.
+   * Throws an AssemblyError when no video could be made; the frames are kept
+   * for recovery as after any failed assembly.
+   */
+  async forceFinish(): Promise<void> {
+    if (!this.hasActiveSession()) {
+      throw new MonitorError("No active timelapse capture to finish");
+    }
+
+    this.logger.log("Forced capture finish requested");
+    const error = await this.handlePrintFinished(this.currentPrintId);
+    if (error) {
+      throw new AssemblyError(
+        `Capture finished but no video was made: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Stops any active capture and deletes its frames without assembling a video.
+   */
+  async discardFrames(): Promise<void> {
+    this.logger.log("Discarding captured frames");
+
+    this.clearWatchdog();
+    this.clearLayerTracking();
+
+    await this.stopTimelapseCapture();
+
+    this.timelapseCapture.clearFrames();
+    this.sessionStore.clear();
+    this.telemetryLog.clear();
+    this.isSessionActive = false;
+    this.isSuspended = false;
+    this.isPausedForSpace = false;
+    this.thinnedFromInterval = null;
+    this.captureJobId = null;
+    this.sessionStartedAt = null;
+    this.currentPrintFilename = null;
+    this.currentPrintFile = null;
+  }
+
+  private startWatchdog(jobId: number | null): void {
     // Only start watchdog if enabled (> 0)
     if (this.config.watchdogTimeout <= 0) {
       return;
     }
 
-    this.watchdogExpiry = Date.now() + this.config.watchdogTimeout * 1000;
-    console.log(
+    this.watchdogExpiry = this.clock() + this.config.watchdogTimeout * 1000;
+    this.logger.log(
       `Watchdog started: ${this.config.watchdogTimeout}s timeout for job ${jobId}`
     );
   }
 
   private resetWatchdog(): void {
-    if (
-      this.config.watchdogTimeout <= 0 ||
-      !this.timelapseCapture.isCurrentlyCapturing()
-    ) {
+    if (this.config.watchdogTimeout <= 0 || !this.hasActiveSession()) {
       return;
     }
 
-    this.watchdogExpiry = Date.now() + this.config.watchdogTimeout * 1000;
-    console.log(`Watchdog reset: ${this.config.watchdogTimeout}s remaining`);
+    this.watchdogExpiry = this.clock() + this.config.watchdogTimeout * 1000;
+    this.logger.log(`Watchdog reset: ${this.config.watchdogTimeout}s remaining`);
   }
 
   private checkWatchdog(): void {
     if (
       this.config.watchdogTimeout <= 0 ||
-      !this.timelapseCapture.isCurrentlyCapturing() ||
+      !this.hasActiveSession() ||
       this.watchdogExpiry === null
     ) {
       return;
     }
 
-    const now = Date.now();
+    const now = this.clock();
     if (now >= this.watchdogExpiry) {
-      console.warn(
+      this.logger.warn(
         `Watchdog triggered: No PRINTING state seen for ${this.config.watchdogTimeout}s`
       );
-      console.warn("Forcing timelapse completion due to watchdog");
+      this.logger.warn("Forcing timelapse completion due to watchdog");
+      this.notifier.notify("watchdog_triggered", {
+        ...this.sessionInfo(this.captureJobId),
+        error: `No PRINTING state seen for ${this.config.watchdogTimeout}s`,
+      });
 
       // Use current print ID if available, otherwise null
       this.handlePrintFinished(this.currentPrintId).catch((error) => {
-        console.error(
+        this.logger.error(
           `Error during watchdog-triggered completion: ${error.message}`
         );
       });
@@ -357,6 +1464,6 @@ export class PrintMonitor {
 
   private clearWatchdog(): void {
     this.watchdogExpiry = null;
-    console.log("Watchdog cleared");
+    this.logger.log("Watchdog cleared");
   }
 }
@@ -0,0 +1,172 @@
+import { spawn } from "child_process";
+import { randomBytes } from "crypto";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import {
+  MqttChannelConfig,
+  NotificationChannelConfig,
+  ShellChannelConfig,
+  WebhookChannelConfig,
+} from "../types/config";
+import { renderShellTemplate, sessionContext } from "../template";
+import { NotificationPayload } from "../types/notification";
+import { mqttPublish } from "./mqtt";
+
+export interface NotificationChannel {
+  readonly name: string;
+  readonly config: NotificationChannelConfig;
+  send(payload: NotificationPayload, timeoutMs: number): Promise<void>;
+}
+
+export class ShellChannel implements NotificationChannel {
+  readonly name = "shell";
+  readonly config: ShellChannelConfig;
+
+  constructor(config: ShellChannelConfig) {
+    this.config = config;
+  }
+
+  async send(payload: NotificationPayload, timeoutMs: number): Promise<void> {
+    const command = renderShellTemplate(
+      this.config.command,
+      sessionContext(payload.printer, payload, {
+        event: payload.event,
+        outputPath: payload.outputPath,
+        outputDir: payload.outputDir,
+        error: payload.error,
+      })
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      // Event details are also exposed as environment variables
+      const child = spawn(command, {
+        shell: true,
+        stdio: "inherit",
+        env: {
+          ...process.env,
+          TIMELAPSE_EVENT: payload.event,
+          TIMELAPSE_PRINTER: payload.printer,
+          TIMELAPSE_JOB_ID: payload.jobId !== null ? String(payload.jobId) : "",
+          TIMELAPSE_FILE_NAME: payload.fileName || "",
+          TIMELAPSE_OUTPUT_PATH: payload.outputPath || "",
+          TIMELAPSE_ERROR: payload.error || "",
+        },
+      });
+
+      const timeout = setTimeout(() => {
+        child.kill("SIGKILL");
+        reject(new Error(`Command timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      child.on("error", (error) => {
+        clearTimeout(timeout);
+        reject(new Error(`Command failed: ${error.message}`));
+      });
+
+      child.on("exit", (code) => {
+        clearTimeout(timeout);
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`Command exited with code ${code}`));
+        }
+      });
+    });
+  }
+}
+
+export class WebhookChannel implements NotificationChannel {
+  readonly name = "webhook";
+  readonly config: WebhookChannelConfig;
+
+  constructor(config: WebhookChannelConfig) {
+    this.config = config;
+  }
+
+  async send(payload: NotificationPayload, timeoutMs: number): Promise<void> {
+    const url = new URL(this.config.url);
+    const body = JSON.stringify(payload);
+    const request = url.protocol === "https:" ? httpsRequest : httpRequest;
+
+    await new Promise<void>((resolve, reject) => {
+      const req = request(
+        url,
+        {
+          method: this.config.method || "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Content-Length": Buffer.byteLength(body),
+            "User-Agent": "prusa-timelapse/1.0.0",
+            ...this.config.headers,
+          },
+        },
+        (res) => {
+          // Drain the response so the socket is released
+          res.resume();
+          res.on("end", () => {
+            const statusCode = res.statusCode || 0;
+            if (statusCode >= 200 && statusCode < 300) {
+              resolve();
+            } else {
+              reject(
+                new Error(
+                  `Webhook returned HTTP ${statusCode} ${res.statusMessage}`
+                )
+              );
+            }
+          });
+        }
+      );
+
+      req.on("error", (error) => {
+        reject(new Error(`Webhook request failed: ${error.message}`));
+      });
+
+      req.setTimeout(timeoutMs, () => {
+        req.destroy();
+        reject(new Error(`Webhook timed out after ${timeoutMs}ms`));
+      });
+
+      req.end(body);
+    });
+  }
+}
+
+export class MqttChannel implements NotificationChannel {
+  readonly name = "mqtt";
+  readonly config: MqttChannelConfig;
+  private clientId: string;
+
+  constructor(config: MqttChannelConfig) {
+    this.config = config;
+    this.clientId =
+      config.clientId || `prusa-timelapse-${randomBytes(4).toString("hex")}`;
+  }
+
+  async send(payload: NotificationPayload, timeoutMs: number): Promise<void> {
+    await mqttPublish({
+      host: this.config.host,
+      port: this.config.port || 1883,
+      clientId: this.clientId,
+      topic: this.config.topic,
+      payload: JSON.stringify(payload),
+      username: this.config.username,
+      password: this.config.password,
+      retain: this.config.retain,
+      timeoutMs,
+    });
+  }
+}
+
+export function createChannel(
+  config: NotificationChannelConfig
+): NotificationChannel {
+  switch (config.type) {
+    case "shell":
+      return new ShellChannel(config);
+    case "webhook":
+      return new WebhookChannel(config);
+    case "mqtt":
+      return new MqttChannel(config);
+  }
+}
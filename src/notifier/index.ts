@@ -0,0 +1,107 @@
+import { Logger } from "../logger";
+import {
+  NotificationChannelConfig,
+  NotificationConfig,
+  NotificationEvent,
+} from "../types/config";
+import { NotificationPayload } from "../types/notification";
+import { createChannel, NotificationChannel } from "./channels";
+
+const DEFAULT_TIMEOUT_SECONDS = 30;
+const DEFAULT_RETRY_DELAY_SECONDS = 5;
+
+export type NotificationDetails = Omit<
+  NotificationPayload,
+  "event" | "printer" | "timestamp"
+>;
+
+/**
+ * Fans monitor events out to the configured notification channels.
+ * Delivery failures are logged and never thrown - a broken webhook must not
+ * interrupt monitoring.
+ */
+export class Notifier {
+  private printerName: string;
+  private logger: Logger;
+  private channels: NotificationChannel[];
+
+  constructor(
+    config: NotificationConfig,
+    printerName: string,
+    logger: Logger = new Logger()
+  ) {
+    this.printerName = printerName;
+    this.logger = logger;
+    this.channels = Notifier.channelConfigs(config).map(createChannel);
+  }
+
+  // The legacy `command` option is a shell channel for completed timelapses
+  private static channelConfigs(
+    config: NotificationConfig
+  ): NotificationChannelConfig[] {
+    const channels = [...(config.channels || [])];
+    if (config.command) {
+      channels.unshift({
+        type: "shell",
+        command: config.command,
+        events: ["timelapse_completed"],
+      });
+    }
+    return channels;
+  }
+
+  async notify(
+    event: NotificationEvent,
+    details: NotificationDetails
+  ): Promise<void> {
+    const payload: NotificationPayload = {
+      event,
+      printer: this.printerName,
+      timestamp: new Date().toISOString(),
+      ...details,
+    };
+
+    const channels = this.channels.filter(
+      (channel) =>
+        !channel.config.events || channel.config.events.includes(event)
+    );
+
+    await Promise.all(
+      channels.map((channel) => this.deliver(channel, payload))
+    );
+  }
+
+  private async deliver(
+    channel: NotificationChannel,
+    payload: NotificationPayload
+  ): Promise<void> {
+    const attempts = (channel.config.retries || 0) + 1;
+    const timeoutMs =
+      (channel.config.timeout || DEFAULT_TIMEOUT_SECONDS) * 1000;
+    const retryDelayMs =
+      (channel.config.retryDelay ?? DEFAULT_RETRY_DELAY_SECONDS) * 1000;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      try {
+        this.logger.log(
+          `Sending ${payload.event} notification via ${channel.name}`
+        );
+        await channel.send(payload, timeoutMs);
+        this.logger.log(`Notification sent successfully via ${channel.name}`);
+        return;
+      } catch (error) {
+        const message = (error as Error).message;
+        if (attempt < attempts) {
+          this.logger.warn(
+            `Failed to send notification via ${channel.name} (attempt ${attempt}/${attempts}): ${message}`
+          );
+          await new Promise((resolve) => setTimeout(resolve, retryDelayMs));
+        } else {
+          this.logger.error(
+            `Failed to send notification via ${channel.name}: ${message}`
+          );
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { connect } from "net";
+
+// Minimal MQTT 3.1.1 client: connect, publish one QoS 0 message, disconnect.
+// Enough for pushing events to a local broker without an extra dependency.
+
+const PROTOCOL_LEVEL = 4;
+const KEEP_ALIVE_SECONDS = 60;
+
+export interface MqttPublishOptions {
+  host: string;
+  port: number;
+  clientId: string;
+  topic: string;
+  payload: string;
+  username?: string;
+  password?: string;
+  retain?: boolean;
+  timeoutMs: number;
+}
+
+function encodeRemainingLength(length: number): Buffer {
+  const bytes: number[] = [];
+  do {
+    let byte = length % 128;
+    length = Math.floor(length / 128);
+    if (length > 0) {
+      byte |= 0x80;
+    }
+    bytes.push(byte);
+  } while (length > 0);
+  return Buffer.from(bytes);
+}
+
+function encodeString(value: string): Buffer {
+  const data = Buffer.from(value, "utf-8");
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(data.length);
+  return Buffer.concat([length, data]);
+}
+
+function packet(type: number, body: Buffer): Buffer {
+  return Buffer.concat([
+    Buffer.from([type]),
+    encodeRemainingLength(body.length),
+    body,
+  ]);
+}
+
+function connectPacket(options: MqttPublishOptions): Buffer {
+  let flags = 0x02; // clean session
+  const payload = [encodeString(options.clientId)];
+  if (options.username !== undefined) {
+    flags |= 0x80;
+    payload.push(encodeString(options.username));
+  }
+  if (options.password !== undefined) {
+    flags |= 0x40;
+    payload.push(encodeString(options.password));
+  }
+
+  const keepAlive = Buffer.alloc(2);
+  keepAlive.writeUInt16BE(KEEP_ALIVE_SECONDS);
+
+  return packet(
+    0x10,
+    Buffer.concat([
+      encodeString("MQTT"),
+      Buffer.from([PROTOCOL_LEVEL, flags]),
+      keepAlive,
+      ...payload,
+    ])
+  );
+}
+
+function publishPacket(options: MqttPublishOptions): Buffer {
+  const type = 0x30 | (options.retain ? 0x01 : 0x00);
+  return packet(
+    type,
+    Buffer.concat([
+      encodeString(options.topic),
+      Buffer.from(options.payload, "utf-8"),
+    ])
+  );
+}
+
+const DISCONNECT_PACKET = Buffer.from([0xe0, 0x00]);
+
+export function mqttPublish(options: MqttPublishOptions): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = connect(options.port, options.host);
+    let settled = false;
+
+    const finish = (error?: Error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timeout);
+      socket.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    const timeout = setTimeout(() => {
+      finish(new Error(`MQTT publish timed out after ${options.timeoutMs}ms`));
+    }, options.timeoutMs);
+
+    socket.on("connect", () => {
+      socket.write(connectPacket(options));
+    });
+
+    socket.on("data", (data) => {
+      // CONNACK: 0x20 0x02 <session present> <return code>
+      if (data.length < 4 || data[0] !== 0x20) {
+        finish(new Error("Unexpected response from MQTT broker"));
+        return;
+      }
+      const returnCode = data[3];
+      if (returnCode !== 0) {
+        finish(
+          new Error(
+            `MQTT broker refused connection (return code ${returnCode})`
+          )
+        );
+        return;
+      }
+
+      socket.write(publishPacket(options));
+      socket.end(DISCONNECT_PACKET, () => finish());
+    });
+
+    socket.on("error", (error) => {
+      finish(new Error(`MQTT connection failed: ${error.message}`));
+    });
+
+    socket.on("close", () => {
+      finish(new Error("MQTT connection closed before publishing"));
+    });
+  });
+}
@@ -0,0 +1,206 @@
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { TelemetrySample } from "../telemetry";
+import { JobFile, PrinterState } from "../types/api";
+import { CaptureMode } from "../types/config";
+import { SessionInfo } from "../types/notification";
+
+const REPORT_VERSION = 2;
+
+// Columns of the CSV time series, in order
+const CSV_COLUMNS: [string, keyof TelemetrySample][] = [
+  ["time", "time"],
+  ["state", "state"],
+  ["frame", "frame"],
+  ["progress", "progress"],
+  ["time_printing", "timePrinting"],
+  ["time_remaining", "timeRemaining"],
+  ["axis_z", "axisZ"],
+  ["temp_nozzle", "tempNozzle"],
+  ["target_nozzle", "targetNozzle"],
+  ["temp_bed", "tempBed"],
+  ["target_bed", "targetBed"],
+  ["fan_hotend", "fanHotend"],
+  ["fan_print", "fanPrint"],
+  ["speed", "speed"],
+  ["flow", "flow"],
+];
+
+export interface PauseInterval {
+  state: PrinterState; // PAUSED or ATTENTION
+  start: string; // ISO timestamp of the first poll in the state
+  end: string; // ISO timestamp of the first poll after it (or the last poll)
+  duration: number; // seconds
+}
+
+export interface TemperatureStats {
+  min: number;
+  max: number;
+  average: number;
+  maxDeviation: number | null; // largest distance from the target while one was set
+}
+
+export interface CaptureStats {
+  mode: CaptureMode;
+  captureInterval: number; // seconds
+  frameCount: number;
+  restarts: number; // capture restarts by the supervisor
+  degraded: boolean; // capture was failing when the print ended
+}
+
+export interface PrintReport {
+  version: number;
+  printer: string;
+  jobId: number | null;
+  file: JobFile | null; // from /api/v1/job when the print started
+  startedAt: string | null;
+  finishedAt: string | null;
+  finalState: PrinterState | null;
+  printDuration: number | null; // seconds
+  pauses: PauseInterval[];
+  pausedSeconds: number;
+  capture: CaptureStats;
+  videoStatus: "assembled" | "failed"; // "failed": the video named like the report was never written
+  outputPaths: string[]; // videos written, empty if assembly failed
+  error: string | null; // assembly error, if any
+  temperatures: {
+    nozzle: TemperatureStats | null;
+    bed: TemperatureStats | null;
+  };
+  samples: TelemetrySample[];
+}
+
+export interface PrintReportInput {
+  printer: string;
+  info: SessionInfo;
+  file: JobFile | null;
+  capture: CaptureStats;
+  outputPaths: string[];
+  error: string | null;
+  samples: TelemetrySample[];
+}
+
+function seconds(start: string, end: string): number {
+  return Math.max(0, (Date.parse(end) - Date.parse(start)) / 1000);
+}
+
+/**
+ * Finds the runs of polls where the printer was paused or waiting for the
+ * user. A run lasts until the first poll in another state.
+ */
+export function findPauses(samples: TelemetrySample[]): PauseInterval[] {
+  const pauses: PauseInterval[] = [];
+  let current: PauseInterval | null = null;
+
+  for (const sample of samples) {
+    const isPaused = sample.state === "PAUSED" || sample.state === "ATTENTION";
+    if (current && (!isPaused || sample.state !== current.state)) {
+      current.end = sample.time;
+      current.duration = seconds(current.start, current.end);
+      current = null;
+    }
+    if (isPaused && !current) {
+      current = {
+        state: sample.state,
+        start: sample.time,
+        end: sample.time,
+        duration: 0,
+      };
+      pauses.push(current);
+    }
+  }
+
+  // Still paused at the last poll
+  if (current && samples.length > 0) {
+    current.end = samples[samples.length - 1].time;
+    current.duration = seconds(current.start, current.end);
+  }
+  return pauses;
+}
+
+function temperatureStats(
+  samples: TelemetrySample[],
+  current: "tempNozzle" | "tempBed",
+  target: "targetNozzle" | "targetBed"
+): TemperatureStats | null {
+  const readings = samples.filter((sample) => sample[current] !== undefined);
+  if (readings.length === 0) {
+    return null;
+  }
+
+  const values = readings.map((sample) => sample[current] as number);
+  const deviations = readings
+    .filter((sample) => sample[target])
+    .map((sample) =>
+      Math.abs((sample[current] as number) - (sample[target] as number))
+    );
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  return {
+    min: Math.min(...values),
+    max: Math.max(...values),
+    average: round(
+      values.reduce((sum, value) => sum + value, 0) / values.length
+    ),
+    maxDeviation: deviations.length > 0 ? round(Math.max(...deviations)) : null,
+  };
+}
+
+export function buildPrintReport(input: PrintReportInput): PrintReport {
+  const pauses = findPauses(input.samples);
+  return {
+    version: REPORT_VERSION,
+    printer: input.printer,
+    jobId: input.info.jobId,
+    file: input.file,
+    startedAt: input.info.startedAt,
+    finishedAt: input.info.finishedAt,
+    finalState: input.info.finalState,
+    printDuration: input.info.printDuration,
+    pauses,
+    pausedSeconds: pauses.reduce((sum, pause) => sum + pause.duration, 0),
+    capture: input.capture,
+    videoStatus: input.error === null ? "assembled" : "failed",
+    outputPaths: input.outputPaths,
+    error: input.error,
+    temperatures: {
+      nozzle: temperatureStats(input.samples, "tempNozzle", "targetNozzle"),
+      bed: temperatureStats(input.samples, "tempBed", "targetBed"),
+    },
+    samples: input.samples,
+  };
+}
+
+/**
+ * Formats the telemetry time series as CSV, one row per status poll. Missing
+ * readings are left empty.
+ */
+export function formatCsv(samples: TelemetrySample[]): string {
+  const rows = samples.map((sample) =>
+    CSV_COLUMNS.map(([, key]) => {
+      const value = sample[key];
+      return value === undefined || value === null ? "" : String(value);
+    }).join(",")
+  );
+  return [CSV_COLUMNS.map(([name]) => name).join(","), ...rows, ""].join("\n");
+}
+
+/**
+ * Writes the report as JSON and the time series as CSV next to the video,
+ * with the video's name.
+ *
+ * @param outputPath - Path of the main video, with extension
+ * @returns Paths of the JSON and CSV files
+ */
+export function writePrintReport(
+  report: PrintReport,
+  outputPath: string
+): string[] {
+  const basePath = outputPath.replace(/\.[^/.]+$/, "");
+  const jsonPath = `${basePath}.json`;
+  const csvPath = `${basePath}.csv`;
+  mkdirSync(dirname(outputPath), { recursive: true });
+  writeFileSync(jsonPath, `${JSON.stringify(report, null, 2)}\n`);
+  writeFileSync(csvPath, formatCsv(report.samples));
+  return [jsonPath, csvPath];
+}
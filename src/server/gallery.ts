@@ -0,0 +1,149 @@
+/**
+ * Single-page gallery of the timelapse library. Everything is loaded from
+ * `GET /api/library`; the token the page was opened with (`?token=`) is
+ * passed on to the API, video and thumbnail requests.
+ */
+export function renderGalleryPage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Timelapses</title>
+<style>
+  body { font-family: sans-serif; margin: 0; background: #111; color: #eee; }
+  header { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; padding: 12px 16px; background: #1b1b1b; }
+  header h1 { font-size: 18px; margin: 0 16px 0 0; }
+  select, input { background: #222; color: #eee; border: 1px solid #444; padding: 4px 6px; }
+  #grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(240px, 1fr)); gap: 12px; padding: 16px; }
+  .card { background: #1b1b1b; border-radius: 4px; overflow: hidden; cursor: pointer; }
+  .card img, .card video { width: 100%; aspect-ratio: 16 / 9; object-fit: cover; background: #000; display: block; }
+  .card .info { padding: 8px; font-size: 13px; }
+  .card .name { font-weight: bold; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .card .meta { color: #999; margin-top: 4px; }
+  .state-FINISHED { color: #6c6; }
+  .state-STOPPED { color: #cc6; }
+  .state-ERROR { color: #e66; }
+  #empty { padding: 16px; color: #999; }
+</style>
+</head>
+<body>
+<header>
+  <h1>Timelapses</h1>
+  <select id="printer"><option value="">All printers</option></select>
+  <select id="state">
+    <option value="">All results</option>
+    <option value="FINISHED">Finished</option>
+    <option value="STOPPED">Stopped</option>
+    <option value="ERROR">Error</option>
+  </select>
+  <input id="search" type="search" placeholder="Search file name">
+</header>
+<div id="grid"></div>
+<div id="empty" hidden>No timelapses found.</div>
+<script>
+  const token = new URLSearchParams(location.search).get("token") || "";
+  const withToken = (url) =>
+    token ? url + (url.includes("?") ? "&" : "?") + "token=" + encodeURIComponent(token) : url;
+  const fileUrl = (entry, file) =>
+    withToken("/api/printers/" + encodeURIComponent(entry.printer) + "/library/" + entry.id + "/" + file);
+  let entries = [];
+
+  function formatDuration(seconds) {
+    if (seconds === null || seconds === undefined) return "";
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    return h > 0 ? h + "h" + String(m).padStart(2, "0") + "m" : m + "m" + String(Math.floor(seconds % 60)).padStart(2, "0") + "s";
+  }
+
+  function formatSize(bytes) {
+    return bytes >= 1048576 ? (bytes / 1048576).toFixed(1) + " MB" : Math.ceil(bytes / 1024) + " kB";
+  }
+
+  function card(entry) {
+    const el = document.createElement("div");
+    el.className = "card";
+    const img = document.createElement("img");
+    img.loading = "lazy";
+    img.alt = "";
+    if (entry.thumbnail) img.src = fileUrl(entry, "thumbnail");
+    el.appendChild(img);
+
+    const info = document.createElement("div");
+    info.className = "info";
+    const name = document.createElement("div");
+    name.className = "name";
+    name.textContent = entry.fileName || "Job " + (entry.jobId ?? "?");
+    name.title = name.textContent;
+    const meta = document.createElement("div");
+    meta.className = "meta";
+    const state = document.createElement("span");
+    state.className = "state-" + entry.finalState;
+    state.textContent = entry.finalState || "UNKNOWN";
+    meta.append(
+      state,
+      " · " + entry.printer,
+      " · " + (entry.finishedAt ? new Date(entry.finishedAt).toLocaleString() : ""),
+      " · print " + formatDuration(entry.printDuration),
+      " · video " + Math.round(entry.duration) + "s",
+      " · " + formatSize(entry.size)
+    );
+    info.append(name, meta);
+    el.appendChild(info);
+
+    // Swap the thumbnail for the video on click
+    el.addEventListener("click", () => {
+      if (el.querySelector("video")) return;
+      const video = document.createElement("video");
+      video.src = fileUrl(entry, "video");
+      video.controls = true;
+      video.autoplay = true;
+      el.replaceChild(video, img);
+    });
+    return el;
+  }
+
+  function render() {
+    const printer = document.getElementById("printer").value;
+    const state = document.getElementById("state").value;
+    const search = document.getElementById("search").value.trim().toLowerCase();
+    const visible = entries.filter((entry) =>
+      (!printer || entry.printer === printer) &&
+      (!state || entry.finalState === state) &&
+      (!search || (entry.fileName || "").toLowerCase().includes(search))
+    );
+    const grid = document.getElementById("grid");
+    grid.replaceChildren(...visible.map(card));
+    document.getElementById("empty").hidden = visible.length > 0;
+  }
+
+  fetch(withToken("/api/library"))
+    .then((res) => {
+      if (!res.ok) throw new Error("HTTP " + res.status);
+      return res.json();
+    })
+    .then((body) => {
+      entries = body.entries;
+      const select = document.getElementById("printer");
+      for (const printer of [...new Set(entries.map((entry) => entry.printer))].sort()) {
+        const option = document.createElement("option");
+        option.value = printer;
+        option.textContent = printer;
+        select.appendChild(option);
+      }
+      render();
+    })
+    .catch((error) => {
+      const empty = document.getElementById("empty");
+      empty.textContent = "Failed to load the library: " + error.message;
+      empty.hidden = false;
+    });
+
+  for (const id of ["printer", "state", "search"]) {
+    document.getElementById(id).addEventListener("input", render);
+  }
+</script>
+</body>
+</html>
+`;
+}
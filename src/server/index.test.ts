@@ -0,0 +1,97 @@
+import { request } from "http";
+import { StatusServer } from ".";
+import { AssemblyError, MonitorError, PrintMonitor } from "../monitor";
+
+const PORT = 18790;
+const TOKEN = "secret";
+
+// The parts of a monitor the capture routes use
+function stubMonitor(forceFinish: () => Promise<void>): PrintMonitor {
+  return {
+    getPrinterName: () => "mk4",
+    getSnapshot: () => ({ printer: "mk4", capturing: false }),
+    forceFinish,
+  } as unknown as PrintMonitor;
+}
+
+function post(path: string): Promise<{ statusCode: number; body: unknown }> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      {
+        host: "127.0.0.1",
+        port: PORT,
+        path,
+        method: "POST",
+        agent: false,
+        headers: { Authorization: `Bearer ${TOKEN}` },
+      },
+      (res) => {
+        let body = "";
+        res.on("data", (chunk) => {
+          body += chunk;
+        });
+        res.on("end", () => {
+          resolve({ statusCode: res.statusCode || 0, body: JSON.parse(body) });
+        });
+      }
+    );
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+describe("StatusServer capture actions", () => {
+  let server: StatusServer;
+
+  async function start(forceFinish: () => Promise<void>): Promise<void> {
+    server = new StatusServer({ host: "127.0.0.1", port: PORT, token: TOKEN }, [
+      stubMonitor(forceFinish),
+    ]);
+    await server.start();
+  }
+
+  beforeAll(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("answers a finished capture with the printer's state", async () => {
+    await start(async () => {});
+
+    const response = await post("/api/printers/mk4/capture/finish");
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toEqual({ printer: "mk4", capturing: false });
+  });
+
+  it("answers a finish without a video with 500", async () => {
+    await start(async () => {
+      throw new AssemblyError("Capture finished but no video was made: boom");
+    });
+
+    const response = await post("/api/printers/mk4/capture/finish");
+
+    expect(response.statusCode).toBe(500);
+    expect(response.body).toEqual({
+      error: "Capture finished but no video was made: boom",
+      printer: { printer: "mk4", capturing: false },
+    });
+  });
+
+  it("answers a finish with nothing to finish with 409", async () => {
+    await start(async () => {
+      throw new MonitorError("No active timelapse capture to finish");
+    });
+
+    const response = await post("/api/printers/mk4/capture/finish");
+
+    expect(response.statusCode).toBe(409);
+  });
+});
@@ -0,0 +1,416 @@
+import { timingSafeEqual } from "crypto";
+import { createReadStream, existsSync, statSync } from "fs";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { extname } from "path";
+import { LibraryEntry } from "../library";
+import { AssemblyError, MonitorError, PrintMonitor } from "../monitor";
+import { ServerConfig } from "../types/config";
+import { renderGalleryPage } from "./gallery";
+
+export class ServerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ServerError";
+  }
+}
+
+// POST /api/printers/{name}/capture/{action}
+type CaptureAction = "start" | "finish" | "discard";
+
+const CAPTURE_ACTIONS: CaptureAction[] = ["start", "finish", "discard"];
+
+// GET /api/printers/{name}/library/{id}/{file}
+type LibraryFile = "video" | "thumbnail";
+
+const LIBRARY_FILES: LibraryFile[] = ["video", "thumbnail"];
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".mkv": "video/x-matroska",
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+};
+
+/**
+ * Small JSON API exposing monitor state, capture controls and the timelapse
+ * library.
+ *
+ * Routes (all require `Authorization: Bearer <token>`):
+ * - `GET /api/status` - snapshot of every monitored printer
+ * - `GET /api/printers/{name}` - snapshot of one printer
+ * - `POST /api/printers/{name}/capture/start|finish|discard` - capture actions
+ *   (a finish whose video couldn't be assembled answers 500)
+ * - `GET /api/library` - library entries of every printer, newest first
+ *   (filters: `printer`, `state`, `q`)
+ * - `GET /api/printers/{name}/library` - library entries of one printer
+ * - `GET /api/printers/{name}/library/{id}/video|thumbnail` - library files
+ * - `GET /gallery` - web gallery (only with `gallery` enabled)
+ *
+ * With the gallery enabled, GET requests may pass the token as `?token=`
+ * instead, since the browser can't add headers to video and image requests.
+ */
+export class StatusServer {
+  private config: ServerConfig;
+  private monitors: Map<string, PrintMonitor>;
+  private server: Server | null = null;
+
+  constructor(config: ServerConfig, monitors: PrintMonitor[]) {
+    this.config = config;
+    this.monitors = new Map(
+      monitors.map((monitor) => [monitor.getPrinterName(), monitor])
+    );
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      throw new ServerError("Server already started");
+    }
+
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error(`HTTP API error: ${(error as Error).message}`);
+        this.sendJson(res, 500, { error: "Internal server error" });
+      });
+    });
+
+    const host = this.config.host || "0.0.0.0";
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", (error) => {
+        reject(new ServerError(`Failed to start HTTP API: ${error.message}`));
+      });
+      server.listen(this.config.port, host, () => resolve());
+    });
+
+    this.server = server;
+    console.log(`HTTP API listening on ${host}:${this.config.port}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private async handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (!this.isAuthorized(req, url)) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      this.sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }
+
+    const segments = url.pathname.split("/").filter(Boolean);
+
+    // GET /gallery
+    if (
+      this.config.gallery &&
+      segments.length === 1 &&
+      segments[0] === "gallery"
+    ) {
+      if (req.method !== "GET") {
+        this.sendMethodNotAllowed(res, "GET");
+        return;
+      }
+      res.statusCode = 200;
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      res.end(renderGalleryPage());
+      return;
+    }
+
+    // GET /api/library
+    if (
+      segments.length === 2 &&
+      segments[0] === "api" &&
+      segments[1] === "library"
+    ) {
+      if (req.method !== "GET") {
+        this.sendMethodNotAllowed(res, "GET");
+        return;
+      }
+      this.sendJson(res, 200, {
+        entries: this.filterEntries(
+          this.libraryEntries(Array.from(this.monitors.values())),
+          url.searchParams
+        ),
+      });
+      return;
+    }
+
+    // GET /api/status
+    if (
+      segments.length === 2 &&
+      segments[0] === "api" &&
+      segments[1] === "status"
+    ) {
+      if (req.method !== "GET") {
+        this.sendMethodNotAllowed(res, "GET");
+        return;
+      }
+      const printers = Array.from(this.monitors.values()).map((monitor) =>
+        monitor.getSnapshot()
+      );
+      this.sendJson(res, 200, { printers });
+      return;
+    }
+
+    if (
+      segments.length < 3 ||
+      segments[0] !== "api" ||
+      segments[1] !== "printers"
+    ) {
+      this.sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    let printerName: string;
+    try {
+      printerName = decodeURIComponent(segments[2]);
+    } catch (error) {
+      if (error instanceof URIError) {
+        // Malformed percent-encoding, such as a lone "%"
+        this.sendJson(res, 400, { error: "Malformed printer name" });
+        return;
+      }
+      throw error;
+    }
+    const monitor = this.monitors.get(printerName);
+    if (!monitor) {
+      this.sendJson(res, 404, { error: `Unknown printer '${printerName}'` });
+      return;
+    }
+
+    // GET /api/printers/{name}
+    if (segments.length === 3) {
+      if (req.method !== "GET") {
+        this.sendMethodNotAllowed(res, "GET");
+        return;
+      }
+      this.sendJson(res, 200, monitor.getSnapshot());
+      return;
+    }
+
+    if (segments[3] === "library") {
+      this.handleLibraryRequest(req, res, monitor, segments.slice(4));
+      return;
+    }
+
+    // POST /api/printers/{name}/capture/{action}
+    const action = segments[4] as CaptureAction;
+    if (
+      segments.length !== 5 ||
+      segments[3] !== "capture" ||
+      !CAPTURE_ACTIONS.includes(action)
+    ) {
+      this.sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+    if (req.method !== "POST") {
+      this.sendMethodNotAllowed(res, "POST");
+      return;
+    }
+
+    try {
+      await this.runCaptureAction(monitor, action);
+      this.sendJson(res, 200, monitor.getSnapshot());
+    } catch (error) {
+      if (error instanceof MonitorError) {
+        // Action doesn't fit the current monitor state
+        this.sendJson(res, 409, { error: error.message });
+      } else if (error instanceof AssemblyError) {
+        // The capture is over, but there is no video
+        this.sendJson(res, 500, {
+          error: error.message,
+          printer: monitor.getSnapshot(),
+        });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  private handleLibraryRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    monitor: PrintMonitor,
+    segments: string[]
+  ): void {
+    const file = segments[1] as LibraryFile;
+    if (
+      segments.length !== 0 &&
+      (segments.length !== 2 || !LIBRARY_FILES.includes(file))
+    ) {
+      this.sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+    if (req.method !== "GET") {
+      this.sendMethodNotAllowed(res, "GET");
+      return;
+    }
+
+    // GET /api/printers/{name}/library
+    if (segments.length === 0) {
+      this.sendJson(res, 200, { entries: this.libraryEntries([monitor]) });
+      return;
+    }
+
+    // GET /api/printers/{name}/library/{id}/video|thumbnail
+    const entry = this.libraryEntries([monitor]).find(
+      (candidate) => candidate.id === segments[0]
+    );
+    const relativePath = entry
+      ? file === "video"
+        ? entry.video
+        : entry.thumbnail
+      : null;
+    if (!relativePath) {
+      this.sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    const path = monitor.getLibrary().resolveFile(relativePath);
+    if (!existsSync(path)) {
+      this.sendJson(res, 404, { error: "File no longer exists" });
+      return;
+    }
+    this.sendFile(req, res, path);
+  }
+
+  // Entries of the given printers only, since printers can share an index
+  private libraryEntries(monitors: PrintMonitor[]): LibraryEntry[] {
+    return monitors
+      .flatMap((monitor) =>
+        monitor
+          .getLibrary()
+          .list()
+          .filter((entry) => entry.printer === monitor.getPrinterName())
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private filterEntries(
+    entries: LibraryEntry[],
+    params: URLSearchParams
+  ): LibraryEntry[] {
+    const printer = params.get("printer");
+    const state = params.get("state");
+    const query = params.get("q")?.toLowerCase();
+    return entries.filter(
+      (entry) =>
+        (!printer || entry.printer === printer) &&
+        (!state || entry.finalState === state) &&
+        (!query || (entry.fileName || "").toLowerCase().includes(query))
+    );
+  }
+
+  /**
+   * Streams a file, honouring a single byte range so browsers can seek in
+   * videos.
+   */
+  private sendFile(
+    req: IncomingMessage,
+    res: ServerResponse,
+    path: string
+  ): void {
+    const size = statSync(path).size;
+    res.setHeader(
+      "Content-Type",
+      CONTENT_TYPES[extname(path).toLowerCase()] || "application/octet-stream"
+    );
+    res.setHeader("Accept-Ranges", "bytes");
+
+    let start = 0;
+    let end = size - 1;
+    const range = /^bytes=(\d*)-(\d*)$/.exec(req.headers.range || "");
+    if (range && (range[1] || range[2])) {
+      if (range[1]) {
+        start = parseInt(range[1], 10);
+        end = range[2] ? Math.min(parseInt(range[2], 10), size - 1) : end;
+      } else {
+        // Suffix range: the last n bytes
+        start = Math.max(0, size - parseInt(range[2], 10));
+      }
+      if (start > end || start >= size) {
+        res.statusCode = 416;
+        res.setHeader("Content-Range", `bytes */${size}`);
+        res.end();
+        return;
+      }
+      res.statusCode = 206;
+      res.setHeader("Content-Range", `bytes ${start}-${end}/${size}`);
+    } else {
+      res.statusCode = 200;
+    }
+    res.setHeader("Content-Length", end - start + 1);
+
+    const stream = createReadStream(path, { start, end });
+    stream.on("error", (error) => {
+      console.error(`HTTP API error: ${error.message}`);
+      res.destroy();
+    });
+    stream.pipe(res);
+  }
+
+  private async runCaptureAction(
+    monitor: PrintMonitor,
+    action: CaptureAction
+  ): Promise<void> {
+    switch (action) {
+      case "start":
+        await monitor.forceStartCapture();
+        break;
+      case "finish":
+        await monitor.forceFinish();
+        break;
+      case "discard":
+        await monitor.discardFrames();
+        break;
+    }
+  }
+
+  private isAuthorized(req: IncomingMessage, url: URL): boolean {
+    const header = req.headers.authorization;
+    let token: string | null = null;
+    if (header && header.startsWith("Bearer ")) {
+      token = header.slice("Bearer ".length).trim();
+    } else if (this.config.gallery && req.method === "GET") {
+      token = url.searchParams.get("token");
+    }
+    if (!token) {
+      return false;
+    }
+
+    // Constant-time comparison so the token can't be guessed byte by byte
+    const provided = Buffer.from(token);
+    const expected = Buffer.from(this.config.token);
+    return (
+      provided.length === expected.length && timingSafeEqual(provided, expected)
+    );
+  }
+
+  private sendMethodNotAllowed(res: ServerResponse, allowed: string): void {
+    res.setHeader("Allow", allowed);
+    this.sendJson(res, 405, { error: "Method not allowed" });
+  }
+
+  private sendJson(
+    res: ServerResponse,
+    statusCode: number,
+    body: unknown
+  ): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.statusCode = statusCode;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+  }
+}
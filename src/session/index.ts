@@ -0,0 +1,116 @@
+import { createHash } from "crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { join, resolve } from "path";
+import { TimelapseConfig } from "../types/config";
+
+const MANIFEST_FILE = "session.json";
+const MANIFEST_VERSION = 1;
+
+export interface SessionManifest {
+  version: number;
+  jobId: number | null;
+  fileName: string | null;
+  startedAt: string; // ISO timestamp of the first capture start
+  updatedAt: string; // ISO timestamp of the last write
+  firstFrame: number;
+  lastFrame: number; // highest frame number on disk at the last write
+  suspended: boolean;
+  watchdogExpiry: string | null; // ISO timestamp
+  configHash: string; // hash of the capture settings the frames were taken with
+  captureInterval?: number; // seconds between frames chosen for this session
+}
+
+/**
+ * Hashes the settings that affect how frames look, so frames taken with a
+ * different camera or capture mode are never mixed into one video.
+ */
+export function hashCaptureSettings(config: TimelapseConfig): string {
+  const settings = {
+    // Legacy rtspUrl configs hash as before so upgrades can still resume
+    ...(config.source
+      ? { source: config.source }
+      : { rtspUrl: config.rtspUrl }),
+    captureInterval: config.captureInterval,
+    mode: config.mode || "interval",
+  };
+  return createHash("sha256")
+    .update(JSON.stringify(settings))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Reads and writes the session manifest kept next to the frames in the temp
+ * directory, so a restarted service can tell which job the frames belong to.
+ */
+export class SessionStore {
+  private tempDir: string;
+  private manifestPath: string;
+
+  constructor(tempDirectory: string) {
+    this.tempDir = resolve(tempDirectory);
+    this.manifestPath = join(this.tempDir, MANIFEST_FILE);
+  }
+
+  read(): SessionManifest | null {
+    if (!existsSync(this.manifestPath)) {
+      return null;
+    }
+
+    try {
+      const manifest = JSON.parse(readFileSync(this.manifestPath, "utf-8"));
+      if (!manifest || manifest.version !== MANIFEST_VERSION) {
+        console.warn(
+          `Ignoring unsupported session manifest: ${this.manifestPath}`
+        );
+        return null;
+      }
+      return manifest as SessionManifest;
+    } catch (error) {
+      console.warn(
+        `Ignoring unreadable session manifest: ${(error as Error).message}`
+      );
+      return null;
+    }
+  }
+
+  write(manifest: Omit<SessionManifest, "version" | "updatedAt">): void {
+    const data: SessionManifest = {
+      version: MANIFEST_VERSION,
+      ...manifest,
+      updatedAt: new Date().toISOString(),
+    };
+
+    // Write then rename so a crash never leaves a half-written manifest
+    mkdirSync(this.tempDir, { recursive: true });
+    const tempPath = `${this.manifestPath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    renameSync(tempPath, this.manifestPath);
+  }
+
+  clear(): void {
+    try {
+      unlinkSync(this.manifestPath);
+    } catch (error) {
+      // Manifest might not exist, ignore
+    }
+  }
+
+  /**
+   * Moves the manifest into another directory (used when quarantining frames).
+   */
+  moveTo(targetDir: string): void {
+    if (!existsSync(this.manifestPath)) {
+      return;
+    }
+    mkdirSync(targetDir, { recursive: true });
+    renameSync(this.manifestPath, join(targetDir, MANIFEST_FILE));
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  compileScenario,
+  parseScenario,
+  PrusaLinkSimulator,
+  Scenario,
+  SimulatorError,
+  stateAt,
+} from ".";
+import { PrusaLinkClient } from "../api/client";
+import { Logger } from "../logger";
+
+class SilentLogger extends Logger {
+  log(): void {}
+}
+
+function printCycle(): Scenario {
+  return {
+    apiKey: "simulator",
+    steps: [
+      { state: "IDLE", duration: 30 },
+      { state: "PRINTING", jobId: 101, file: "benchy.gcode", duration: 600 },
+      { state: "PAUSED", duration: 60 },
+      { state: "PRINTING", duration: 300 },
+      { state: "FINISHED", duration: 60 },
+      { state: "IDLE", duration: 30 },
+    ],
+  };
+}
+
+describe("stateAt", () => {
+  it("follows the job through the steps", () => {
+    const timeline = compileScenario(printCycle());
+
+    expect(stateAt(timeline, 0)).toMatchObject({
+      state: "IDLE",
+      job: null,
+      axisZ: 0,
+    });
+    expect(stateAt(timeline, 330)).toMatchObject({
+      stepIndex: 1,
+      state: "PRINTING",
+      job: {
+        id: 101,
+        file: "benchy.gcode",
+        progress: 33.3,
+        timePrinting: 300,
+        timeRemaining: 600,
+      },
+      axisZ: 2.2,
+    });
+    // Paused steps don't move the job on
+    expect(stateAt(timeline, 660).job).toMatchObject({
+      progress: 66.7,
+      timePrinting: 600,
+    });
+    expect(stateAt(timeline, 1000)).toMatchObject({
+      state: "FINISHED",
+      job: { id: 101, progress: 100, timeRemaining: 0 },
+    });
+  });
+
+  it("keeps the last step once the scenario is over", () => {
+    const timeline = compileScenario(printCycle());
+
+    expect(stateAt(timeline, 5000)).toMatchObject({
+      stepIndex: 5,
+      state: "IDLE",
+      job: null,
+      finished: true,
+    });
+  });
+
+  it("numbers the jobs on when looping", () => {
+    const timeline = compileScenario({ ...printCycle(), loop: true });
+
+    const state = stateAt(timeline, 1080 + 330);
+
+    expect(state.finished).toBe(false);
+    expect(state.job?.id).toBe(202);
+  });
+});
+
+describe("parseScenario", () => {
+  it("collects the problems of every step", () => {
+    const parse = () =>
+      parseScenario({
+        steps: [
+          { state: "PRINTING", duration: 60 },
+          { state: "SLEEPING", duration: 0 },
+        ],
+      });
+
+    expect(parse).toThrow(SimulatorError);
+    expect(parse).toThrow(/problems found/);
+  });
+
+  it("needs a job for printing steps", () => {
+    expect(() =>
+      parseScenario({ steps: [{ state: "PAUSED", duration: 60 }] })
+    ).toThrow("steps[0] is PAUSED but has no jobId");
+  });
+});
+
+describe("PrusaLinkSimulator", () => {
+  let now: number;
+  let simulator: PrusaLinkSimulator;
+  let client: PrusaLinkClient | null;
+
+  async function start(scenario: Scenario): Promise<number> {
+    simulator = new PrusaLinkSimulator(scenario, {
+      port: 0,
+      clock: () => now,
+      logger: new SilentLogger(),
+    });
+    return simulator.start();
+  }
+
+  function connect(port: number, apiKey = "simulator"): PrusaLinkClient {
+    client = new PrusaLinkClient({
+      host: "127.0.0.1",
+      port,
+      apiKey,
+      retries: 0,
+    });
+    return client;
+  }
+
+  beforeEach(() => {
+    now = Date.parse("2026-03-01T12:00:00Z");
+    client = null;
+  });
+
+  afterEach(async () => {
+    client?.close();
+    await simulator.stop();
+  });
+
+  it("serves the scenario to the client", async () => {
+    const api = connect(await start(printCycle()));
+
+    await expect(api.getStatus()).resolves.toMatchObject({
+      printer: { state: "IDLE" },
+    });
+    await expect(api.getJob()).resolves.toBeNull();
+
+    now += 330 * 1000;
+    await expect(api.getStatus()).resolves.toMatchObject({
+      printer: { state: "PRINTING", axis_z: 2.2 },
+      job: { id: 101, progress: 33.3 },
+    });
+    await expect(api.getJob()).resolves.toMatchObject({
+      id: 101,
+      state: "PRINTING",
+      file: { display_name: "benchy.gcode" },
+    });
+    await expect(api.getVersion()).resolves.toMatchObject({
+      original: "PrusaLink MK4",
+    });
+  });
+
+  it("turns away a wrong API key", async () => {
+    const port = await start(printCycle());
+
+    await expect(connect(port, "wrong").getStatus()).rejects.toMatchObject({
+      kind: "auth",
+    });
+  });
+
+  it("plays API faults", async () => {
+    const api = connect(
+      await start({
+        steps: [
+          { state: "IDLE", fault: "outage", duration: 60 },
+          { fault: "error", duration: 60 },
+        ],
+      })
+    );
+
+    await expect(api.getStatus()).rejects.toMatchObject({ kind: "network" });
+    now += 90 * 1000;
+    await expect(api.getStatus()).rejects.toMatchObject({
+      kind: "http",
+      statusCode: 500,
+    });
+  });
+});
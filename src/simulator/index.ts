@@ -0,0 +1,306 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { Logger } from "../logger";
+import { Job, PrinterState, StatusResponse, VersionInfo } from "../types/api";
+import {
+  compileScenario,
+  Scenario,
+  SimulatedJob,
+  SimulatedState,
+  stateAt,
+  Timeline,
+} from "./scenario";
+
+export {
+  compileScenario,
+  loadScenario,
+  parseScenario,
+  Scenario,
+  ScenarioFault,
+  ScenarioStep,
+  SimulatedJob,
+  SimulatedState,
+  stateAt,
+  Timeline,
+} from "./scenario";
+
+export class SimulatorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SimulatorError";
+  }
+}
+
+export interface SimulatorOptions {
+  port?: number; // default: 8080, 0 picks a free port
+  host?: string; // default: "127.0.0.1"
+  timeScale?: number; // overrides the scenario's
+  clock?: () => number; // milliseconds, default: Date.now
+  logger?: Logger;
+}
+
+const DEFAULT_PORT = 8080;
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_MODEL = "MK4";
+const DEFAULT_FIRMWARE = "6.1.3";
+
+// How often step changes are looked for, in real time
+const STEP_CHECK_INTERVAL_MS = 200;
+
+const JOB_STATES: Job["state"][] = [
+  "PRINTING",
+  "PAUSED",
+  "FINISHED",
+  "STOPPED",
+  "ERROR",
+];
+
+/**
+ * A fake PrusaLink that plays a scenario: the printer states, jobs and API
+ * faults of its steps, on a clock sped up by the time scale. Serves the
+ * requests the monitor makes (status, job, version and info), so print
+ * cycles can be run without a printer.
+ */
+export class PrusaLinkSimulator {
+  private timeline: Timeline;
+  private timeScale: number;
+  private clock: () => number;
+  private logger: Logger;
+  private server: Server | null = null;
+  private stepTimer: NodeJS.Timeout | null = null;
+  private startedAt = 0;
+  private lastStep = -1;
+  private lastRound = 0;
+  private announcedEnd = false;
+
+  constructor(
+    private scenario: Scenario,
+    private options: SimulatorOptions = {}
+  ) {
+    this.timeline = compileScenario(scenario);
+    this.timeScale = options.timeScale ?? scenario.timeScale ?? 1;
+    this.clock = options.clock || Date.now;
+    this.logger = options.logger || new Logger("simulator");
+  }
+
+  /**
+   * Starts serving and the scenario clock.
+   *
+   * @returns The port listened on
+   */
+  async start(): Promise<number> {
+    if (this.server) {
+      throw new SimulatorError("Simulator already started");
+    }
+
+    const server = createServer((req, res) => this.handleRequest(req, res));
+    const host = this.options.host || DEFAULT_HOST;
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", (error) => {
+        reject(
+          new SimulatorError(`Failed to start simulator: ${error.message}`)
+        );
+      });
+      server.listen(this.options.port ?? DEFAULT_PORT, host, () => resolve());
+    });
+
+    this.server = server;
+    this.startedAt = this.clock();
+    this.lastStep = -1;
+    this.lastRound = 0;
+    this.announcedEnd = false;
+    this.stepTimer = setInterval(() => this.current(), STEP_CHECK_INTERVAL_MS);
+    this.stepTimer.unref();
+
+    const port = (server.address() as AddressInfo).port;
+    this.logger.log(
+      `Simulated PrusaLink listening on ${host}:${port} (time scale ${this.timeScale}x)`
+    );
+    this.current();
+    return port;
+  }
+
+  async stop(): Promise<void> {
+    if (this.stepTimer) {
+      clearInterval(this.stepTimer);
+      this.stepTimer = null;
+    }
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    // Requests held by a "timeout" step would keep the server open
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  // Seconds of scenario time since start()
+  elapsed(): number {
+    return ((this.clock() - this.startedAt) / 1000) * this.timeScale;
+  }
+
+  /**
+   * What the printer reports now. Logs the steps as they begin.
+   */
+  current(): SimulatedState {
+    const elapsed = this.elapsed();
+    const state = stateAt(this.timeline, elapsed);
+    const round = this.timeline.loop
+      ? Math.floor(elapsed / this.timeline.duration)
+      : 0;
+    if (state.stepIndex !== this.lastStep || round !== this.lastRound) {
+      this.lastStep = state.stepIndex;
+      this.lastRound = round;
+      this.logStep(state);
+    }
+    if (state.finished && !this.announcedEnd) {
+      this.announcedEnd = true;
+      this.logger.log("Scenario finished, the last step continues");
+    }
+    return state;
+  }
+
+  private logStep(state: SimulatedState): void {
+    const step = this.scenario.steps[state.stepIndex];
+    const parts: string[] = [state.state];
+    if (state.job) {
+      parts.push(`job ${state.job.id} (${state.job.file})`);
+    }
+    if (state.fault) {
+      parts.push(`fault: ${state.fault}`);
+    }
+    this.logger.log(
+      `Step ${state.stepIndex + 1}/${this.scenario.steps.length}: ${parts.join(
+        ", "
+      )}${step.description ? ` - ${step.description}` : ""}`
+    );
+  }
+
+  private handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    const state = this.current();
+    switch (state.fault) {
+      case "outage":
+        // Connection reset, as when the printer drops off the network
+        req.socket.destroy();
+        return;
+      case "timeout":
+        // Never answered; the client gives up after its timeout
+        return;
+      case "unauthorized":
+        this.sendJson(res, 401, { error: "Unauthorized" });
+        return;
+      case "error":
+        this.sendJson(res, 500, { error: "Internal server error" });
+        return;
+    }
+
+    if (
+      this.scenario.apiKey !== undefined &&
+      req.headers["x-api-key"] !== this.scenario.apiKey
+    ) {
+      this.sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }
+    if (req.method !== "GET") {
+      res.setHeader("Allow", "GET");
+      this.sendJson(res, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    const path = new URL(req.url || "/", "http://localhost").pathname;
+    switch (path) {
+      case "/api/v1/status":
+        this.sendJson(res, 200, this.status(state));
+        return;
+      case "/api/v1/job":
+        if (!state.job) {
+          res.statusCode = 204;
+          res.end();
+          return;
+        }
+        this.sendJson(res, 200, this.job(state.job, state.state));
+        return;
+      case "/api/version":
+        this.sendJson(res, 200, this.version());
+        return;
+      case "/api/v1/info":
+        this.sendJson(res, 200, {
+          name: "Simulator",
+          hostname: "prusa-simulator",
+          serial: "SIM00000001",
+          nozzle_diameter: 0.4,
+          mmu: false,
+        });
+        return;
+      default:
+        this.sendJson(res, 404, { error: "Not found" });
+    }
+  }
+
+  private status(state: SimulatedState): StatusResponse {
+    const heating = state.state === "PRINTING" || state.state === "PAUSED";
+    const status: StatusResponse = {
+      printer: {
+        state: state.state,
+        temp_nozzle: heating ? 215 : 25,
+        target_nozzle: heating ? 215 : 0,
+        temp_bed: heating ? 60 : 25,
+        target_bed: heating ? 60 : 0,
+        axis_z: state.axisZ,
+        flow: 100,
+        speed: 100,
+        fan_hotend: heating ? 7500 : 0,
+        fan_print: state.state === "PRINTING" ? 5000 : 0,
+      },
+    };
+    if (state.job) {
+      status.job = {
+        id: state.job.id,
+        progress: state.job.progress,
+        time_remaining: state.job.timeRemaining,
+        time_printing: state.job.timePrinting,
+      };
+    }
+    return status;
+  }
+
+  private job(job: SimulatedJob, state: PrinterState): Job {
+    return {
+      id: job.id,
+      state: JOB_STATES.includes(state as Job["state"])
+        ? (state as Job["state"])
+        : "PRINTING",
+      progress: job.progress,
+      time_remaining: job.timeRemaining,
+      time_printing: job.timePrinting,
+      file: {
+        name: job.file,
+        display_name: job.file,
+        path: "/usb",
+        display_path: "/usb",
+        size: 1048576,
+        m_timestamp: Math.floor(this.startedAt / 1000),
+      },
+    };
+  }
+
+  private version(): VersionInfo {
+    const model = this.scenario.model || DEFAULT_MODEL;
+    return {
+      api: "2.0.0",
+      server: "2.1.2",
+      text: `PrusaLink ${model}`,
+      original: `PrusaLink ${model}`,
+      firmware: this.scenario.firmware || DEFAULT_FIRMWARE,
+      hostname: "prusa-simulator",
+    };
+  }
+
+  private sendJson(res: ServerResponse, statusCode: number, body: unknown) {
+    res.statusCode = statusCode;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+  }
+}
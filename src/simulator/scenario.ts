@@ -0,0 +1,297 @@
+import { readFileSync } from "fs";
+import { SimulatorError } from ".";
+import { Schema, validateSchema } from "../config/schema";
+import { PrinterState } from "../types/api";
+
+export type ScenarioFault = "outage" | "timeout" | "unauthorized" | "error";
+
+export interface ScenarioStep {
+  state?: PrinterState; // default: the state of the previous step, "IDLE" for the first
+  jobId?: number; // default: the job of the previous step, if the printer still has one
+  file?: string; // display name of the print file
+  fault?: ScenarioFault; // how the API misbehaves during the step
+  duration: number; // seconds of scenario time
+  description?: string; // logged when the step begins
+}
+
+export interface Scenario {
+  description?: string;
+  apiKey?: string; // requests without this X-Api-Key are answered with 401
+  model?: string; // default: "MK4"
+  firmware?: string; // default: "6.1.3"
+  timeScale?: number; // scenario seconds per real second (default: 1)
+  layerDuration?: number; // seconds of printing per layer (default: 30)
+  loop?: boolean; // start over after the last step (default: false)
+  steps: ScenarioStep[];
+}
+
+export interface SimulatedJob {
+  id: number;
+  file: string;
+  progress: number; // percent
+  timePrinting: number; // seconds
+  timeRemaining: number; // seconds
+}
+
+// What the simulated printer reports at one moment of the scenario
+export interface SimulatedState {
+  stepIndex: number;
+  state: PrinterState;
+  fault: ScenarioFault | null;
+  job: SimulatedJob | null;
+  axisZ: number;
+  finished: boolean; // past the last step of a scenario without loop
+}
+
+// A step with the state, job and start time it inherits filled in
+interface Segment {
+  start: number;
+  end: number;
+  state: PrinterState;
+  fault: ScenarioFault | null;
+  jobId: number | null;
+  file: string | null;
+  printedBefore: number; // printing seconds of the job in earlier segments
+}
+
+export interface Timeline {
+  segments: Segment[];
+  duration: number;
+  jobDurations: Map<number, number>; // printing seconds of each job
+  maxJobId: number;
+  layerDuration: number;
+  loop: boolean;
+}
+
+export const DEFAULT_LAYER_DURATION = 30;
+export const LAYER_HEIGHT = 0.2;
+
+const STATES: PrinterState[] = [
+  "IDLE",
+  "BUSY",
+  "PRINTING",
+  "PAUSED",
+  "FINISHED",
+  "STOPPED",
+  "ERROR",
+  "ATTENTION",
+  "READY",
+];
+
+// States in which the printer has no job, so the job isn't carried over
+const JOBLESS_STATES: PrinterState[] = ["IDLE", "READY", "BUSY"];
+
+// States that need a job
+const JOB_STATES: PrinterState[] = ["PRINTING", "PAUSED"];
+
+const STEP_SCHEMA: Schema = {
+  type: "object",
+  required: ["duration"],
+  properties: {
+    state: {
+      type: "string",
+      enum: STATES,
+      description: "Printer state (default: the state of the previous step)",
+    },
+    jobId: {
+      type: "number",
+      integer: true,
+      exclusiveMinimum: 0,
+      description: "Job ID (default: the job of the previous step)",
+    },
+    file: { type: "string", nonEmpty: true, description: "Print file name" },
+    fault: {
+      type: "string",
+      enum: ["outage", "timeout", "unauthorized", "error"],
+      description: "How the API misbehaves during the step",
+    },
+    duration: {
+      type: "number",
+      exclusiveMinimum: 0,
+      description: "Seconds of scenario time",
+    },
+    description: { type: "string", description: "Logged when the step begins" },
+  },
+};
+
+const SCENARIO_SCHEMA: Schema = {
+  type: "object",
+  required: ["steps"],
+  properties: {
+    description: { type: "string" },
+    apiKey: { type: "string", nonEmpty: true },
+    model: { type: "string", nonEmpty: true },
+    firmware: { type: "string", nonEmpty: true },
+    timeScale: { type: "number", exclusiveMinimum: 0 },
+    layerDuration: { type: "number", exclusiveMinimum: 0 },
+    loop: { type: "boolean" },
+    steps: { type: "array", items: STEP_SCHEMA, minItems: 1 },
+  },
+};
+
+/**
+ * Validates a parsed scenario file. Problems are collected like the
+ * configuration's and thrown together.
+ */
+export function parseScenario(value: unknown): Scenario {
+  const { errors, warnings } = validateSchema(SCENARIO_SCHEMA, value);
+  for (const warning of warnings) {
+    console.warn(`Scenario warning: ${warning}`);
+  }
+  if (errors.length === 0) {
+    // Steps are checked once their types are known to be right
+    compileScenario(value as Scenario, errors);
+  }
+  if (errors.length === 1) {
+    throw new SimulatorError(errors[0]);
+  }
+  if (errors.length > 1) {
+    throw new SimulatorError(
+      `${errors.length} problems found:\n${errors
+        .map((error) => `  - ${error}`)
+        .join("\n")}`
+    );
+  }
+  return value as Scenario;
+}
+
+export function loadScenario(scenarioPath: string): Scenario {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(scenarioPath, "utf-8"));
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new SimulatorError(
+        `Invalid JSON in scenario file: ${error.message}`
+      );
+    }
+    throw new SimulatorError(
+      `Failed to load scenario file '${scenarioPath}': ${
+        (error as Error).message
+      }`
+    );
+  }
+  return parseScenario(parsed);
+}
+
+/**
+ * Lays the steps out on a time line, each inheriting the state and job of
+ * the step before it. Problems are added to errors when given, thrown
+ * otherwise.
+ */
+export function compileScenario(
+  scenario: Scenario,
+  errors?: string[]
+): Timeline {
+  const problems = errors || [];
+  const segments: Segment[] = [];
+  const jobDurations = new Map<number, number>();
+  let state: PrinterState = "IDLE";
+  let jobId: number | null = null;
+  let file: string | null = null;
+  let time = 0;
+
+  scenario.steps.forEach((step, index) => {
+    state = step.state || state;
+    if (step.jobId !== undefined) {
+      if (step.jobId !== jobId) {
+        file = null;
+      }
+      jobId = step.jobId;
+    } else if (JOBLESS_STATES.includes(state)) {
+      jobId = null;
+      file = null;
+    }
+    if (jobId !== null) {
+      file = step.file || file || `job-${jobId}.gcode`;
+    } else if (JOB_STATES.includes(state)) {
+      problems.push(`steps[${index}] is ${state} but has no jobId`);
+    }
+
+    const printedBefore = jobId !== null ? jobDurations.get(jobId) || 0 : 0;
+    if (jobId !== null && state === "PRINTING") {
+      jobDurations.set(jobId, printedBefore + step.duration);
+    }
+    segments.push({
+      start: time,
+      end: time + step.duration,
+      state,
+      fault: step.fault || null,
+      jobId,
+      file,
+      printedBefore,
+    });
+    time += step.duration;
+  });
+
+  if (!errors && problems.length > 0) {
+    throw new SimulatorError(problems.join("; "));
+  }
+  return {
+    segments,
+    duration: time,
+    jobDurations,
+    maxJobId: Math.max(0, ...segments.map((segment) => segment.jobId || 0)),
+    layerDuration: scenario.layerDuration ?? DEFAULT_LAYER_DURATION,
+    loop: scenario.loop === true,
+  };
+}
+
+/**
+ * The printer's state after some seconds of scenario time. A looping
+ * scenario numbers its jobs on from the previous round, like a printer
+ * would; otherwise the last step lasts forever.
+ */
+export function stateAt(timeline: Timeline, seconds: number): SimulatedState {
+  let time = Math.max(0, seconds);
+  let round = 0;
+  let finished = false;
+  if (time >= timeline.duration) {
+    if (timeline.loop) {
+      round = Math.floor(time / timeline.duration);
+      time -= round * timeline.duration;
+    } else {
+      time = timeline.duration;
+      finished = true;
+    }
+  }
+
+  let stepIndex = timeline.segments.findIndex((segment) => time < segment.end);
+  if (stepIndex === -1) {
+    stepIndex = timeline.segments.length - 1;
+  }
+  const segment = timeline.segments[stepIndex];
+
+  let job: SimulatedJob | null = null;
+  let axisZ = 0;
+  if (segment.jobId !== null) {
+    const total = timeline.jobDurations.get(segment.jobId) || 0;
+    const printed =
+      segment.printedBefore +
+      (segment.state === "PRINTING" ? time - segment.start : 0);
+    const progress =
+      segment.state === "FINISHED"
+        ? 100
+        : total > 0
+        ? (printed / total) * 100
+        : 0;
+    job = {
+      id: segment.jobId + round * timeline.maxJobId,
+      file: segment.file as string,
+      progress: Math.round(Math.min(100, progress) * 10) / 10,
+      timePrinting: Math.round(printed),
+      timeRemaining: Math.round(Math.max(0, total - printed)),
+    };
+    const layer = Math.floor(printed / timeline.layerDuration) + 1;
+    axisZ = Math.round(layer * LAYER_HEIGHT * 100) / 100;
+  }
+
+  return {
+    stepIndex,
+    state: segment.state,
+    fault: segment.fault,
+    job,
+    axisZ,
+    finished,
+  };
+}
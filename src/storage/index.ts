@@ -0,0 +1,75 @@
+import { existsSync, statfsSync } from "fs";
+import { dirname, resolve } from "path";
+import { DiskSpaceConfig } from "../types/config";
+
+export { applyRetention, cleanQuarantine } from "./retention";
+
+// "low" warns, "critical" takes the configured action
+export type DiskSpaceLevel = "ok" | "low" | "critical";
+
+const LEVELS: DiskSpaceLevel[] = ["ok", "low", "critical"];
+
+// Free space has to be this far above a threshold before the level drops
+// again, so a volume hovering around it doesn't flap
+const RECOVERY_MARGIN = 1.1;
+
+/**
+ * Free bytes available on the volume holding path. While the directory
+ * doesn't exist yet, its nearest existing parent is measured.
+ */
+export function getFreeBytes(path: string): number {
+  let current = resolve(path);
+  while (!existsSync(current) && dirname(current) !== current) {
+    current = dirname(current);
+  }
+  const stats = statfsSync(current);
+  return stats.bavail * stats.bsize;
+}
+
+/**
+ * Tracks how full the volume holding a directory is, against the warning and
+ * minimum free space thresholds.
+ */
+export class DiskSpaceGuard {
+  private path: string;
+  private config: DiskSpaceConfig;
+  private level: DiskSpaceLevel = "ok";
+
+  constructor(path: string, config: DiskSpaceConfig) {
+    this.path = path;
+    this.config = config;
+  }
+
+  getLevel(): DiskSpaceLevel {
+    return this.level;
+  }
+
+  /**
+   * Measures the free space and updates the level.
+   */
+  check(): { level: DiskSpaceLevel; freeBytes: number } {
+    const freeBytes = getFreeBytes(this.path);
+    const current = LEVELS.indexOf(this.level);
+    const strict = LEVELS.indexOf(this.levelFor(freeBytes, 1));
+
+    if (strict >= current) {
+      this.level = LEVELS[strict];
+    } else {
+      const relaxed = LEVELS.indexOf(this.levelFor(freeBytes, RECOVERY_MARGIN));
+      this.level = LEVELS[Math.min(current, relaxed)];
+    }
+    return { level: this.level, freeBytes };
+  }
+
+  private levelFor(freeBytes: number, margin: number): DiskSpaceLevel {
+    const minFree = this.config.minFreeBytes;
+    const warnFree = this.config.warnFreeBytes ?? minFree * 2;
+    if (freeBytes < minFree * margin) {
+      return "critical";
+    }
+    if (freeBytes < warnFree * margin) {
+      return "low";
+    }
+    return "ok";
+  }
+}
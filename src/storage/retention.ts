@@ -0,0 +1,97 @@
+import { existsSync, readdirSync, rmSync, statSync } from "fs";
+import { join } from "path";
+import { LibraryEntry, TimelapseLibrary } from "../library";
+import { Logger } from "../logger";
+import { RetentionConfig } from "../types/config";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function entryTime(entry: LibraryEntry): number {
+  return Date.parse(entry.finishedAt || entry.createdAt);
+}
+
+/**
+ * Deletes the printer's timelapses that fall outside the retention policy:
+ * older than maxAgeDays, beyond the newest maxCount, or beyond maxTotalBytes
+ * (oldest first). Only timelapses in the library are touched.
+ *
+ * @returns Number of timelapses deleted
+ */
+export function applyRetention(
+  library: TimelapseLibrary,
+  printer: string,
+  config: RetentionConfig,
+  logger: Logger
+): number {
+  // Newest first, so everything past a limit is the oldest
+  const entries = library
+    .list()
+    .filter((entry) => entry.printer === printer)
+    .sort((a, b) => entryTime(b) - entryTime(a));
+
+  const cutoff = config.maxAgeDays
+    ? Date.now() - config.maxAgeDays * DAY_MS
+    : null;
+  let totalBytes = 0;
+  let deleted = 0;
+
+  entries.forEach((entry, index) => {
+    const size = library.entrySize(entry);
+    totalBytes += size;
+
+    let reason: string | null = null;
+    if (cutoff !== null && entryTime(entry) < cutoff) {
+      reason = `older than ${config.maxAgeDays} days`;
+    } else if (config.maxCount && index >= config.maxCount) {
+      reason = `more than ${config.maxCount} timelapses`;
+    } else if (
+      config.maxTotalBytes &&
+      index > 0 && // the newest is kept even if it alone is too big
+      totalBytes > config.maxTotalBytes
+    ) {
+      reason = `more than ${config.maxTotalBytes} bytes in total`;
+    }
+    if (!reason) {
+      return;
+    }
+
+    library.delete(entry);
+    totalBytes -= size;
+    deleted++;
+    logger.log(`Retention: deleted ${entry.video} (${reason})`);
+  });
+
+  return deleted;
+}
+
+/**
+ * Deletes quarantined frame sets (one directory each) last modified more
+ * than maxAgeDays ago.
+ *
+ * @returns Number of frame sets deleted
+ */
+export function cleanQuarantine(
+  quarantineDir: string,
+  maxAgeDays: number,
+  logger: Logger
+): number {
+  if (!existsSync(quarantineDir)) {
+    return 0;
+  }
+
+  const cutoff = Date.now() - maxAgeDays * DAY_MS;
+  let deleted = 0;
+  for (const name of readdirSync(quarantineDir)) {
+    const path = join(quarantineDir, name);
+    const stats = statSync(path);
+    if (!stats.isDirectory() || stats.mtimeMs >= cutoff) {
+      continue;
+    }
+    rmSync(path, { recursive: true, force: true });
+    deleted++;
+    logger.log(
+      `Retention: deleted quarantined frames ${path} (older than ${maxAgeDays} days)`
+    );
+  }
+  return deleted;
+}
@@ -0,0 +1,124 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+} from "fs";
+import { join, resolve } from "path";
+import { PrinterState, StatusResponse } from "../types/api";
+
+export {
+  buildCues,
+  formatSrt,
+  formatVtt,
+  overlayText,
+  SubtitleCue,
+} from "./subtitles";
+
+const TELEMETRY_FILE = "telemetry.jsonl";
+
+// Printer readings from one status poll, tied to the frames captured so far
+export interface TelemetrySample {
+  time: string; // ISO timestamp of the poll
+  frame: number; // highest frame number on disk at the time of the poll
+  state: PrinterState;
+  tempNozzle?: number;
+  targetNozzle?: number;
+  tempBed?: number;
+  targetBed?: number;
+  progress?: number; // percent
+  timePrinting?: number; // seconds
+  timeRemaining?: number; // seconds
+  axisZ?: number; // mm
+  speed?: number; // percent
+  flow?: number; // percent
+  fanHotend?: number; // rpm
+  fanPrint?: number; // rpm
+}
+
+export function sampleFromStatus(
+  status: StatusResponse,
+  frame: number
+): TelemetrySample {
+  return {
+    time: new Date().toISOString(),
+    frame,
+    state: status.printer.state,
+    tempNozzle: status.printer.temp_nozzle,
+    targetNozzle: status.printer.target_nozzle,
+    tempBed: status.printer.temp_bed,
+    targetBed: status.printer.target_bed,
+    progress: status.job?.progress,
+    timePrinting: status.job?.time_printing,
+    timeRemaining: status.job?.time_remaining,
+    axisZ: status.printer.axis_z,
+    speed: status.printer.speed,
+    flow: status.printer.flow,
+    fanHotend: status.printer.fan_hotend,
+    fanPrint: status.printer.fan_print,
+  };
+}
+
+/**
+ * Append-only log of telemetry samples kept next to the frames in the temp
+ * directory (one JSON object per line), so it survives restarts along with
+ * the frames it describes.
+ */
+export class TelemetryLog {
+  private tempDir: string;
+  private logPath: string;
+
+  constructor(tempDirectory: string) {
+    this.tempDir = resolve(tempDirectory);
+    this.logPath = join(this.tempDir, TELEMETRY_FILE);
+  }
+
+  append(sample: TelemetrySample): void {
+    mkdirSync(this.tempDir, { recursive: true });
+    appendFileSync(this.logPath, `${JSON.stringify(sample)}\n`);
+  }
+
+  /**
+   * Returns the logged samples in order. A line cut short by a crash is
+   * skipped.
+   */
+  read(): TelemetrySample[] {
+    if (!existsSync(this.logPath)) {
+      return [];
+    }
+
+    const samples: TelemetrySample[] = [];
+    for (const line of readFileSync(this.logPath, "utf-8").split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        samples.push(JSON.parse(line));
+      } catch (error) {
+        // Partially written line, ignore
+      }
+    }
+    return samples;
+  }
+
+  clear(): void {
+    try {
+      unlinkSync(this.logPath);
+    } catch (error) {
+      // Log might not exist, ignore
+    }
+  }
+
+  /**
+   * Moves the log into another directory (used when quarantining frames).
+   */
+  moveTo(targetDir: string): void {
+    if (!existsSync(this.logPath)) {
+      return;
+    }
+    mkdirSync(targetDir, { recursive: true });
+    renameSync(this.logPath, join(targetDir, TELEMETRY_FILE));
+  }
+}
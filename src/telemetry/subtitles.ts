@@ -0,0 +1,181 @@
+import { formatDuration } from "../template";
+import { OverlayField } from "../types/config";
+import { TelemetrySample } from ".";
+
+export const DEFAULT_OVERLAY_FIELDS: OverlayField[] = [
+  "progress",
+  "elapsed",
+  "layer",
+  "temperatures",
+];
+
+const PROGRESS_BAR_WIDTH = 20;
+
+export interface SubtitleCue {
+  start: number; // seconds into the timelapse
+  end: number;
+  text: string;
+}
+
+function progressBar(progress: number): string {
+  const percent = Math.min(Math.max(progress, 0), 100);
+  const filled = Math.round((percent / 100) * PROGRESS_BAR_WIDTH);
+  return `${"█".repeat(filled)}${"░".repeat(
+    PROGRESS_BAR_WIDTH - filled
+  )} ${Math.round(percent)}%`;
+}
+
+function temperature(current: number, target?: number): string {
+  const value = Math.round(current);
+  return target ? `${value}/${Math.round(target)}°C` : `${value}°C`;
+}
+
+function formatField(
+  field: OverlayField,
+  sample: TelemetrySample
+): string | null {
+  switch (field) {
+    case "progress":
+      return sample.progress !== undefined
+        ? progressBar(sample.progress)
+        : null;
+    case "elapsed":
+      return sample.timePrinting !== undefined
+        ? `Elapsed ${formatDuration(sample.timePrinting)}`
+        : null;
+    case "remaining":
+      return sample.timeRemaining !== undefined
+        ? `Remaining ${formatDuration(sample.timeRemaining)}`
+        : null;
+    case "layer":
+      return sample.axisZ !== undefined
+        ? `Z ${sample.axisZ.toFixed(2)} mm`
+        : null;
+    case "temperatures": {
+      const parts: string[] = [];
+      if (sample.tempNozzle !== undefined) {
+        parts.push(
+          `Nozzle ${temperature(sample.tempNozzle, sample.targetNozzle)}`
+        );
+      }
+      if (sample.tempBed !== undefined) {
+        parts.push(`Bed ${temperature(sample.tempBed, sample.targetBed)}`);
+      }
+      return parts.length > 0 ? parts.join("  ") : null;
+    }
+    case "speed":
+      return sample.speed !== undefined ? `Speed ${sample.speed}%` : null;
+    case "flow":
+      return sample.flow !== undefined ? `Flow ${sample.flow}%` : null;
+  }
+}
+
+/**
+ * Renders the overlay text for one sample, one line per field that has a
+ * value.
+ */
+export function overlayText(
+  sample: TelemetrySample,
+  fields: OverlayField[] = DEFAULT_OVERLAY_FIELDS
+): string {
+  return fields
+    .map((field) => formatField(field, sample))
+    .filter((line): line is string => line !== null)
+    .join("\n");
+}
+
+/**
+ * Turns the telemetry log into subtitle cues on the video timeline. Frame n
+ * (numbered from 1) is shown at (n - 1) / framerate and gets the latest
+ * sample taken once it was on disk; runs of frames with the same text share
+ * one cue. Samples taken while the print was paused describe no frame and
+ * are skipped.
+ */
+export function buildCues(
+  samples: TelemetrySample[],
+  frameCount: number,
+  framerate: number,
+  fields: OverlayField[] = DEFAULT_OVERLAY_FIELDS
+): SubtitleCue[] {
+  const cues: { startFrame: number; endFrame: number; text: string }[] = [];
+  let sampleIndex = 0;
+  let current: TelemetrySample | null = null;
+
+  for (let frame = 1; frame <= frameCount; frame++) {
+    while (
+      sampleIndex < samples.length &&
+      samples[sampleIndex].frame <= frame
+    ) {
+      if (samples[sampleIndex].state === "PRINTING") {
+        current = samples[sampleIndex];
+      }
+      sampleIndex++;
+    }
+
+    const text = current ? overlayText(current, fields) : "";
+    if (!text) {
+      continue;
+    }
+
+    const last = cues[cues.length - 1];
+    if (last && last.text === text && last.endFrame === frame - 1) {
+      last.endFrame = frame;
+    } else {
+      cues.push({ startFrame: frame, endFrame: frame, text });
+    }
+  }
+
+  return cues.map((cue) => ({
+    start: (cue.startFrame - 1) / framerate,
+    end: cue.endFrame / framerate,
+    text: cue.text,
+  }));
+}
+
+function timestamp(seconds: number, separator: string): string {
+  const totalMs = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) =>
+    value.toString().padStart(length, "0");
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(
+    totalMs % 1000,
+    3
+  )}`;
+}
+
+/**
+ * Formats cues as SubRip.
+ *
+ * @param offset - Seconds added to every cue (e.g. for a title card)
+ */
+export function formatSrt(cues: SubtitleCue[], offset = 0): string {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${timestamp(cue.start + offset, ",")} --> ${timestamp(
+          cue.end + offset,
+          ","
+        )}\n${cue.text}\n`
+    )
+    .join("\n");
+}
+
+/**
+ * Formats cues as WebVTT.
+ *
+ * @param offset - Seconds added to every cue (e.g. for a title card)
+ */
+export function formatVtt(cues: SubtitleCue[], offset = 0): string {
+  const body = cues
+    .map(
+      (cue) =>
+        `${timestamp(cue.start + offset, ".")} --> ${timestamp(
+          cue.end + offset,
+          "."
+        )}\n${cue.text}\n`
+    )
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+}
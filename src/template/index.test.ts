@@ -0,0 +1,36 @@
+import { renderShellTemplate, renderTemplate } from ".";
+
+describe("renderTemplate", () => {
+  it("fills in the placeholders of the context", () => {
+    expect(
+      renderTemplate("{prefix}_{fileName}", {
+        prefix: "timelapse",
+        fileName: "benchy",
+      })
+    ).toBe("timelapse_benchy");
+  });
+
+  it("leaves unknown placeholders untouched", () => {
+    expect(renderTemplate("{prefix}_{fileNmae}", { prefix: "a" })).toBe(
+      "a_{fileNmae}"
+    );
+  });
+
+  it("doesn't take inherited object members for values", () => {
+    expect(
+      renderTemplate("{prefix}_{constructor}_{toString}", { prefix: "a" })
+    ).toBe("a_{constructor}_{toString}");
+  });
+});
+
+describe("renderShellTemplate", () => {
+  it("quotes values for the shell", () => {
+    expect(
+      renderShellTemplate("echo {fileName}", { fileName: "it's.gcode" })
+    ).toBe(`echo 'it'\\''s.gcode'`);
+  });
+
+  it("doesn't take inherited object members for values", () => {
+    expect(renderShellTemplate("echo {toString}", {})).toBe("echo {toString}");
+  });
+});
@@ -0,0 +1,191 @@
+import { SessionInfo } from "../types/notification";
+
+export type TemplateValue = string | number | Date | null | undefined;
+export type TemplateContext = Record<string, TemplateValue>;
+
+// {name} or {name:format}; the format only applies to date values
+const PLACEHOLDER_PATTERN = /\{([A-Za-z]+)(?::([^{}]*))?\}/y;
+
+// Matches the previous timestamp style of output filenames (UTC, no colons)
+const DEFAULT_DATE_FORMAT = "YYYY-MM-DDTHH-mm-ss";
+
+const DATE_TOKEN_PATTERN = /YYYY|MM|DD|HH|mm|ss/g;
+
+/**
+ * Formats a date in UTC using the tokens YYYY, MM, DD, HH, mm and ss.
+ */
+export function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  const tokens: Record<string, string> = {
+    YYYY: date.getUTCFullYear().toString(),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  };
+  return format.replace(DATE_TOKEN_PATTERN, (token) => tokens[token]);
+}
+
+/**
+ * Formats a duration in seconds as e.g. "1h05m09s".
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return hours > 0
+    ? `${hours}h${pad(minutes)}m${pad(secs)}s`
+    : `${minutes}m${pad(secs)}s`;
+}
+
+/**
+ * Quotes a value as a single POSIX shell word.
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Replaces characters that aren't allowed in file names.
+ */
+export function sanitizeFilename(value: string): string {
+  return value.replace(/[<>:"/\\|?*\x00-\x1f]/g, "_");
+}
+
+function formatValue(value: TemplateValue, format?: string): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (value instanceof Date) {
+    return formatDate(value, format || DEFAULT_DATE_FORMAT);
+  }
+  return String(value);
+}
+
+// Calls back for every known placeholder in the template, passing the text
+// that precedes it; unknown placeholders are left as they are
+function scanTemplate(
+  template: string,
+  context: TemplateContext,
+  onText: (text: string) => void,
+  onValue: (value: string) => void
+): void {
+  const values: TemplateContext = { date: new Date(), ...context };
+  let index = 0;
+
+  while (index < template.length) {
+    if (template[index] === "{") {
+      PLACEHOLDER_PATTERN.lastIndex = index;
+      const match = PLACEHOLDER_PATTERN.exec(template);
+      if (match && Object.prototype.hasOwnProperty.call(values, match[1])) {
+        onValue(formatValue(values[match[1]], match[2]));
+        index += match[0].length;
+        continue;
+      }
+    }
+    onText(template[index]);
+    index++;
+  }
+}
+
+/**
+ * Replaces every `{name}` / `{name:format}` placeholder with its value from
+ * the context. `{date}` is always available and holds the current time.
+ *
+ * @param escape - Applied to every substituted value (e.g. sanitizeFilename)
+ */
+export function renderTemplate(
+  template: string,
+  context: TemplateContext,
+  escape: (value: string) => string = (value) => value
+): string {
+  let result = "";
+  scanTemplate(
+    template,
+    context,
+    (text) => {
+      result += text;
+    },
+    (value) => {
+      result += escape(value);
+    }
+  );
+  return result;
+}
+
+/**
+ * Renders a template meant to run through `sh -c`. Values are escaped for
+ * the quoting context they appear in, so print file names can never break
+ * out of the command: bare placeholders are single-quoted, placeholders
+ * inside '...' or "..." are escaped for that kind of quote.
+ */
+export function renderShellTemplate(
+  template: string,
+  context: TemplateContext
+): string {
+  let result = "";
+  let quote: "'" | '"' | null = null;
+  let escaped = false;
+
+  scanTemplate(
+    template,
+    context,
+    (char) => {
+      result += char;
+      if (escaped) {
+        escaped = false;
+      } else if (quote === "'") {
+        if (char === "'") {
+          quote = null;
+        }
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (quote === '"') {
+        if (char === '"') {
+          quote = null;
+        }
+      } else if (char === "'" || char === '"') {
+        quote = char;
+      }
+    },
+    (value) => {
+      if (quote === "'") {
+        result += value.replace(/'/g, "'\\''");
+      } else if (quote === '"') {
+        result += value.replace(/[\\"$`]/g, "\\$&");
+      } else {
+        result += shellQuote(value);
+      }
+    }
+  );
+  return result;
+}
+
+/**
+ * Builds the placeholder values describing a capture session:
+ * {printer}, {jobId}, {fileName}, {printDuration}, {frameCount},
+ * {startedAt}, {finishedAt}, {finalState} and {printerHost}.
+ */
+export function sessionContext(
+  printer: string,
+  info: SessionInfo,
+  extra: TemplateContext = {}
+): TemplateContext {
+  return {
+    printer,
+    jobId: info.jobId,
+    // File name without the .gcode/.bgcode extension
+    fileName: info.fileName ? info.fileName.replace(/\.[^/.]+$/, "") : null,
+    printDuration:
+      info.printDuration !== null ? formatDuration(info.printDuration) : null,
+    frameCount: info.frameCount,
+    startedAt: info.startedAt ? new Date(info.startedAt) : null,
+    finishedAt: info.finishedAt ? new Date(info.finishedAt) : null,
+    finalState: info.finalState,
+    printerHost: info.printerHost,
+    ...extra,
+  };
+}
@@ -0,0 +1,173 @@
+import {
+  EncodingSettings,
+  TimelapseConfig,
+  VideoCodec,
+  VideoContainer,
+} from "../types/config";
+
+const ENCODERS: Record<VideoCodec, string> = {
+  x264: "libx264",
+  x265: "libx265",
+  vp9: "libvpx-vp9",
+  "av1-aom": "libaom-av1",
+  "av1-svt": "libsvtav1",
+};
+
+// libvpx and libaom only run in constant quality mode when given a CRF
+const CONSTANT_QUALITY_CRF: Partial<Record<VideoCodec, number>> = {
+  vp9: 31,
+  "av1-aom": 30,
+};
+
+// Tags MP4 stores without the use_metadata_tags flag
+const MP4_STANDARD_TAGS = ["title", "artist", "album", "comment", "date"];
+
+export interface EncodingOutput {
+  path: string;
+  filters: string[]; // picture filters (crop, rotate, flip, scale)
+  args: string[]; // ffmpeg codec and container options, without the path
+}
+
+/**
+ * Returns the file extension (without dot) of the main output video.
+ */
+export function videoExtension(config: TimelapseConfig): VideoContainer {
+  return (config.encoding && config.encoding.container) || "mp4";
+}
+
+function videoFilters(settings: EncodingSettings): string[] {
+  const filters: string[] = [];
+
+  if (settings.crop) {
+    // A missing offset centers the crop on that axis
+    const { width, height } = settings.crop;
+    const x = settings.crop.x ?? "(in_w-out_w)/2";
+    const y = settings.crop.y ?? "(in_h-out_h)/2";
+    filters.push(`crop=${width}:${height}:${x}:${y}`);
+  }
+
+  switch (settings.rotate) {
+    case 90:
+      filters.push("transpose=clock");
+      break;
+    case 180:
+      filters.push("hflip", "vflip");
+      break;
+    case 270:
+      filters.push("transpose=cclock");
+      break;
+  }
+
+  if (settings.flip === "horizontal") {
+    filters.push("hflip");
+  } else if (settings.flip === "vertical") {
+    filters.push("vflip");
+  }
+
+  if (settings.scale) {
+    // -2 keeps the aspect ratio and an even size, which yuv420p needs
+    const width = settings.scale.width || -2;
+    const height = settings.scale.height || -2;
+    filters.push(`scale=${width}:${height}`);
+  }
+
+  return filters;
+}
+
+function encoderArgs(settings: EncodingSettings): string[] {
+  const codec = settings.codec || "x264";
+  const args = ["-c:v", ENCODERS[codec]];
+  const crf =
+    settings.crf !== undefined ? settings.crf : CONSTANT_QUALITY_CRF[codec];
+
+  if (crf !== undefined) {
+    args.push("-crf", crf.toString());
+  }
+  if (codec === "vp9" || codec === "av1-aom") {
+    args.push("-b:v", "0");
+  }
+
+  if (settings.preset) {
+    const presetOption =
+      codec === "vp9"
+        ? "-deadline"
+        : codec === "av1-aom"
+        ? "-cpu-used"
+        : "-preset";
+    args.push(presetOption, settings.preset);
+  }
+
+  // Lets Apple players recognize H.265 in MP4
+  if (codec === "x265" && (settings.container || "mp4") === "mp4") {
+    args.push("-tag:v", "hvc1");
+  }
+
+  return args;
+}
+
+function outputArgs(
+  settings: EncodingSettings,
+  metadata: Record<string, string>
+): string[] {
+  const args = [...encoderArgs(settings), "-pix_fmt", "yuv420p"];
+  for (const [key, value] of Object.entries(metadata)) {
+    args.push("-metadata", `${key}=${value}`);
+  }
+
+  // Move the index to the front so the video starts playing while downloading
+  if ((settings.container || "mp4") === "mp4") {
+    const customTags = Object.keys(metadata).some(
+      (key) => !MP4_STANDARD_TAGS.includes(key)
+    );
+    args.push(
+      "-movflags",
+      customTags ? "+faststart+use_metadata_tags" : "+faststart"
+    );
+  }
+
+  return args;
+}
+
+/**
+ * Builds the filters and ffmpeg output options for the main video and every
+ * variant.
+ * Variant files are named after the main output path plus their suffix.
+ *
+ * @param outputPath - Path of the main video, with extension
+ * @param metadata - Tags written into every video, such as its title
+ */
+export function encodingOutputs(
+  config: TimelapseConfig,
+  outputPath: string,
+  metadata: Record<string, string> = {}
+): EncodingOutput[] {
+  const { variants = [], ...mainSettings } = config.encoding || {};
+  const basePath = outputPath.replace(/\.[^/.]+$/, "");
+
+  return [
+    {
+      path: outputPath,
+      filters: videoFilters(mainSettings),
+      args: outputArgs(mainSettings, metadata),
+    },
+    ...variants.map(({ suffix, ...variantSettings }) => {
+      const settings = { ...mainSettings, ...variantSettings };
+      return {
+        path: `${basePath}${suffix}.${settings.container || "mp4"}`,
+        filters: videoFilters(settings),
+        args: outputArgs(settings, metadata),
+      };
+    }),
+  ];
+}
+
+/**
+ * Returns the ffmpeg encoders the main video and its variants need.
+ */
+export function requiredEncoders(config: TimelapseConfig): string[] {
+  const { variants = [], ...mainSettings } = config.encoding || {};
+  const codecs = [mainSettings, ...variants].map(
+    (settings) => settings.codec || mainSettings.codec || "x264"
+  );
+  return [...new Set(codecs.map((codec) => ENCODERS[codec]))];
+}
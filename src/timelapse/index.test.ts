@@ -0,0 +1,109 @@
+import { spawnSync } from "child_process";
+import { existsSync, mkdirSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { assembleVideo, TimelapseError } from ".";
+import { TimelapseConfig } from "../types/config";
+
+// These tests run the real ffmpeg and are skipped where it isn't installed
+const hasFfmpeg = spawnSync("ffmpeg", ["-version"]).status === 0;
+const describeWithFfmpeg = hasFfmpeg ? describe : describe.skip;
+
+describe("assembleVideo", () => {
+  let directory: string;
+  let config: TimelapseConfig;
+
+  // Writes numbered test pattern frames the way a capture would
+  function generateFrames(count: number): void {
+    const result = spawnSync(
+      "ffmpeg",
+      [
+        "-f",
+        "lavfi",
+        "-i",
+        "testsrc2=size=320x240:rate=5",
+        "-frames:v",
+        count.toString(),
+        "-y",
+        join(config.tempDirectory, "img_%05d.jpg"),
+      ],
+      { timeout: 60000 }
+    );
+    if (result.status !== 0) {
+      throw new Error(`Failed to generate frames: ${result.stderr}`);
+    }
+  }
+
+  // Length in seconds and title tag of a video, as ffprobe reads them
+  function probe(path: string): { duration: number; title?: string } {
+    const result = spawnSync(
+      "ffprobe",
+      [
+        "-v",
+        "error",
+        "-show_entries",
+        "format=duration:format_tags=title",
+        "-of",
+        "json",
+        path,
+      ],
+      { encoding: "utf-8", timeout: 60000 }
+    );
+    const format = JSON.parse(result.stdout).format;
+    return { duration: Number(format.duration), title: format.tags?.title };
+  }
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "timelapse-test-"));
+    config = {
+      rtspUrl: "rtsp://127.0.0.1:554/live",
+      captureInterval: 30,
+      outputFramerate: 5,
+      outputDirectory: join(directory, "videos"),
+      tempDirectory: join(directory, "frames"),
+    };
+    mkdirSync(config.tempDirectory, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("refuses to assemble without frames", async () => {
+    await expect(
+      assembleVideo(config, join(config.outputDirectory, "empty.mp4"))
+    ).rejects.toThrow(
+      new TimelapseError("No frames captured to assemble video")
+    );
+  });
+
+  describeWithFfmpeg("with ffmpeg", () => {
+    it("encodes the frames into a tagged video", async () => {
+      generateFrames(10);
+      const outputPath = join(config.outputDirectory, "benchy.mp4");
+
+      const metadata = { title: "benchy" };
+
+      const video = await assembleVideo(config, outputPath, {}, metadata);
+
+      expect(video.outputPaths).toEqual([outputPath]);
+      expect(video.duration).toBeCloseTo(2);
+      expect(existsSync(outputPath)).toBe(true);
+      const probed = probe(outputPath);
+      expect(probed.duration).toBeCloseTo(2, 0);
+      expect(probed.title).toBe("benchy");
+    });
+
+    it("picks the framerate for a target duration", async () => {
+      generateFrames(20);
+      config.targetDurationSeconds = 1;
+      config.minFramerate = 10;
+      const outputPath = join(config.outputDirectory, "short.mp4");
+
+      const video = await assembleVideo(config, outputPath);
+
+      expect(video.duration).toBeCloseTo(1);
+      expect(probe(outputPath).duration).toBeCloseTo(1, 0);
+    });
+  });
+});
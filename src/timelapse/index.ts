@@ -1,7 +1,42 @@
 import { ChildProcess, spawn } from "child_process";
-import { mkdirSync, readdirSync, unlinkSync } from "fs";
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
 import { dirname, join, resolve } from "path";
-import { TimelapseConfig } from "../types/config";
+import { Logger } from "../logger";
+import { buildCues, formatSrt, formatVtt, TelemetryLog } from "../telemetry";
+import { renderTemplate, TemplateContext } from "../template";
+import { CaptureMode, TimelapseConfig } from "../types/config";
+import { encodingOutputs } from "./encoding";
+import { buildFilterGraph, DEFAULT_TITLE_TEXT } from "./postprocess";
+import { createFrameSource, FrameSource, resolveSourceConfig } from "./sources";
+import { planFrameTiming } from "./timing";
+
+export { FrameSource, createFrameSource, resolveSourceConfig } from "./sources";
+export { CaptureSupervisor } from "./supervisor";
+export { requiredEncoders, videoExtension } from "./encoding";
+export { chooseCaptureInterval } from "./timing";
+
+// Still taken after the print, kept next to the frames until assembly
+const BEAUTY_SHOT_FILE = "beauty.jpg";
+
+// G-code thumbnail of the print (thumbnail: "gcode"), kept until assembly
+const POSTER_FILES: Record<string, string> = {
+  png: "poster.png",
+  jpeg: "poster.jpg",
+};
+
+// Rendered title card text, read by ffmpeg's drawtext filter
+const TITLE_FILE = "title.txt";
+
+// Telemetry overlay cues, read by ffmpeg's subtitles filter
+const OVERLAY_FILE = "overlay.srt";
 
 export class TimelapseError extends Error {
   constructor(message: string) {
@@ -12,13 +47,24 @@ export class TimelapseError extends Error {
 
 export class TimelapseCapture {
   private config: TimelapseConfig;
+  private logger: Logger;
+  private source: FrameSource;
   private captureProcess: ChildProcess | null = null;
+  private pollTimer: NodeJS.Timeout | null = null; // interval capture for polled sources
   private tempDir: string;
   private isCapturing = false;
+  private nextFrameNumber = 1;
+  private captureInterval: number; // seconds between frames for this session
+  private pendingGrab: Promise<string> | null = null;
+  private stopRequested = false;
+  private unexpectedExitListener: ((reason: string) => void) | null = null;
 
-  constructor(config: TimelapseConfig) {
+  constructor(config: TimelapseConfig, logger: Logger = new Logger()) {
     this.config = config;
+    this.logger = logger;
     this.tempDir = resolve(this.config.tempDirectory);
+    this.captureInterval = config.captureInterval;
+    this.source = createFrameSource(resolveSourceConfig(config));
   }
 
   async startCapture(resumeIfPossible: boolean = true): Promise<void> {
@@ -43,7 +89,7 @@ export class TimelapseCapture {
     if (isResuming) {
       // Get the highest frame number and continue from the next one
       startNumber = this.getHighestFrameNumber() + 1;
-      console.log(
+      this.logger.log(
         `Resuming timelapse capture with ${existingFrameCount} existing frames (starting from frame ${startNumber})`
       );
     } else {
@@ -51,16 +97,35 @@ export class TimelapseCapture {
       this.clearTempDirectory();
     }
 
+    this.nextFrameNumber = startNumber;
+    this.stopRequested = false;
+
+    // Layer mode has no long-running process - frames are grabbed on demand
+    if (this.getMode() === "layer") {
+      this.isCapturing = true;
+      this.logger.log(`Layer capture armed (next frame: ${startNumber})`);
+      return;
+    }
+
+    const interval = this.captureInterval;
+    const inputArgs = this.source.ffmpegInputArgs();
+
+    // Sources without a stream are asked for a still every interval
+    if (inputArgs === null) {
+      this.isCapturing = true;
+      this.startPolling(interval);
+      this.logger.log(
+        `Polling ${this.source.description} every ${interval}s (next frame: ${startNumber})`
+      );
+      return;
+    }
+
     // Start ffmpeg capture process
     const outputPattern = join(this.tempDir, "img_%05d.jpg");
-    const interval = this.config.captureInterval;
 
-    // ffmpeg command: ffmpeg -rtsp_transport tcp -i {rtspUrl} -vf fps=1/{interval} -start_number {startNumber} -y {outputPattern}
+    // ffmpeg command: ffmpeg {inputArgs} -vf fps=1/{interval} -start_number {startNumber} -y {outputPattern}
     const ffmpegArgs = [
-      "-rtsp_transport",
-      "tcp",
-      "-i",
-      this.config.rtspUrl,
+      ...inputArgs,
       "-vf",
       `fps=1/${interval}`,
       "-start_number",
@@ -69,44 +134,81 @@ export class TimelapseCapture {
       outputPattern,
     ];
 
-    this.captureProcess = spawn("ffmpeg", ffmpegArgs, {
+    const captureProcess = spawn("ffmpeg", ffmpegArgs, {
       stdio: ["ignore", "pipe", "pipe"],
     });
+    this.captureProcess = captureProcess;
 
     this.isCapturing = true;
 
-    // Handle process events
-    this.captureProcess.on("error", (error) => {
+    // The process ending on its own (camera dropped, stream ended) is reported
+    // to the listener; an exit caused by stopCapture() is not
+    const handleCaptureEnded = (reason: string) => {
+      if (this.captureProcess !== captureProcess || this.stopRequested) {
+        return;
+      }
+      this.captureProcess = null;
       this.isCapturing = false;
-      console.error(`ffmpeg capture error: ${error.message}`);
+      this.logger.error(reason);
+      if (this.unexpectedExitListener) {
+        this.unexpectedExitListener(reason);
+      }
+    };
+
+    // Handle process events
+    captureProcess.on("error", (error) => {
+      handleCaptureEnded(`ffmpeg capture error: ${error.message}`);
     });
 
-    this.captureProcess.on("exit", (code, signal) => {
-      this.isCapturing = false;
-      if (code !== 0 && code !== null) {
-        console.error(`ffmpeg capture exited with code ${code}`);
-      }
+    captureProcess.on("exit", (code, signal) => {
+      handleCaptureEnded(
+        code !== null
+          ? `ffmpeg capture exited with code ${code}`
+          : `ffmpeg capture was killed by ${signal}`
+      );
     });
 
     // Log ffmpeg output for debugging
-    if (this.captureProcess.stdout) {
-      this.captureProcess.stdout.on("data", (data) => {
-        console.log(`ffmpeg stdout: ${data}`);
+    if (captureProcess.stdout) {
+      captureProcess.stdout.on("data", (data) => {
+        this.logger.log(`ffmpeg stdout: ${data}`);
       });
     }
 
-    if (this.captureProcess.stderr) {
-      this.captureProcess.stderr.on("data", (data) => {
-        console.log(`ffmpeg stderr: ${data}`);
+    if (captureProcess.stderr) {
+      captureProcess.stderr.on("data", (data) => {
+        this.logger.log(`ffmpeg stderr: ${data}`);
       });
     }
   }
 
+  /**
+   * Registers a callback for when the capture process ends without
+   * stopCapture() having been called. Capture is stopped at that point.
+   */
+  onUnexpectedExit(listener: (reason: string) => void): void {
+    this.unexpectedExitListener = listener;
+  }
+
   async stopCapture(): Promise<void> {
-    if (!this.isCapturing || !this.captureProcess) {
+    if (!this.isCapturing) {
+      return;
+    }
+
+    // Layer mode and polled sources: just let any in-flight grab finish
+    if (!this.captureProcess) {
+      if (this.pollTimer) {
+        clearInterval(this.pollTimer);
+        this.pollTimer = null;
+      }
+      if (this.pendingGrab) {
+        await this.pendingGrab.catch(() => undefined);
+      }
+      this.isCapturing = false;
       return;
     }
 
+    this.stopRequested = true;
     this.captureProcess.kill("SIGTERM");
 
     // Wait for process to exit
@@ -137,6 +239,102 @@ export class TimelapseCapture {
     return this.isCapturing;
   }
 
+  getMode(): CaptureMode {
+    return this.config.mode || "interval";
+  }
+
+  /**
+   * Overrides the configured captureInterval for the next startCapture(),
+   * e.g. with one derived from the print's remaining time.
+   */
+  setCaptureInterval(seconds: number): void {
+    this.captureInterval = seconds;
+  }
+
+  getCaptureInterval(): number {
+    return this.captureInterval;
+  }
+
+  getSourceDescription(): string {
+    return this.source.description;
+  }
+
+  /**
+   * Grabs a single still from the camera into the frame sequence.
+   * Used by layer mode and polled sources; frames are only numbered once
+   * written so the sequence never has gaps that would cut the assembled
+   * video short.
+   */
+  async captureFrame(): Promise<string> {
+    if (!this.isCapturing) {
+      throw new TimelapseError("Capture not started");
+    }
+    if (this.pendingGrab) {
+      throw new TimelapseError("Frame grab already in progress");
+    }
+
+    this.pendingGrab = this.grabFrame(this.nextFrameNumber);
+    try {
+      const framePath = await this.pendingGrab;
+      this.nextFrameNumber++;
+      return framePath;
+    } finally {
+      this.pendingGrab = null;
+    }
+  }
+
+  /**
+   * Grabs the beauty shot shown at the end of the video (postProcess). Not
+   * part of the frame sequence; works whether or not capture is running.
+   */
+  async captureBeautyShot(): Promise<string> {
+    mkdirSync(this.tempDir, { recursive: true });
+    return this.grabStill(join(this.tempDir, BEAUTY_SHOT_FILE));
+  }
+
+  private grabFrame(frameNumber: number): Promise<string> {
+    return this.grabStill(
+      join(this.tempDir, `img_${frameNumber.toString().padStart(5, "0")}.jpg`)
+    );
+  }
+
+  private async grabStill(framePath: string): Promise<string> {
+    try {
+      await this.source.grabFrame(framePath);
+      if (!existsSync(framePath)) {
+        throw new Error("source did not write a frame");
+      }
+      return framePath;
+    } catch (error) {
+      try {
+        unlinkSync(framePath);
+      } catch (unlinkError) {
+        // Partial frame might not exist, ignore
+      }
+      throw new TimelapseError(
+        `Failed to grab frame from ${this.source.description}: ${
+          (error as Error).message
+        }`
+      );
+    }
+  }
+
+  private startPolling(interval: number): void {
+    const poll = () => {
+      // A slow camera shouldn't stack up requests
+      if (this.pendingGrab) {
+        this.logger.warn("Previous frame grab still running, skipping");
+        return;
+      }
+      this.captureFrame().catch((error) => {
+        this.logger.error(error.message);
+      });
+    };
+
+    poll();
+    this.pollTimer = setInterval(poll, interval * 1000);
+  }
+
   private clearTempDirectory(): void {
     this.clearFrames();
   }
@@ -156,13 +354,35 @@ export class TimelapseCapture {
         }
       }
       if (clearedCount > 0) {
-        console.log(`Cleared ${clearedCount} frames from temp directory`);
+        this.logger.log(`Cleared ${clearedCount} frames from temp directory`);
+      }
+      for (const file of [BEAUTY_SHOT_FILE, ...Object.values(POSTER_FILES)]) {
+        if (files.includes(file)) {
+          unlinkSync(join(this.tempDir, file));
+        }
       }
     } catch (error) {
       // Directory might not exist or be empty, ignore
     }
   }
 
+  /**
+   * Moves all captured frames into another directory, keeping their names.
+   * Used to quarantine frames that don't belong to the current print.
+   */
+  moveFrames(targetDir: string): number {
+    mkdirSync(targetDir, { recursive: true });
+
+    let movedCount = 0;
+    for (const file of readdirSync(this.tempDir)) {
+      if (file.startsWith("img_") && file.endsWith(".jpg")) {
+        renameSync(join(this.tempDir, file), join(targetDir, file));
+        movedCount++;
+      }
+    }
+    return movedCount;
+  }
+
   getCapturedFrameCount(): number {
     try {
       const files = readdirSync(this.tempDir);
@@ -222,12 +442,79 @@ export class TimelapseCapture {
       return { count: 0, lastFrame: null };
     }
   }
+
+  /**
+   * Keeps the G-code thumbnail of the print next to the frames, for the
+   * library to use as the video's poster.
+   *
+   * @returns False if the image is neither PNG nor JPEG
+   */
+  savePoster(image: Buffer): boolean {
+    const format =
+      image.length < 4
+        ? null
+        : image.readUInt32BE(0) === 0x89504e47
+        ? "png"
+        : image.readUInt16BE(0) === 0xffd8
+        ? "jpeg"
+        : null;
+    if (!format) {
+      return false;
+    }
+    mkdirSync(this.tempDir, { recursive: true });
+    writeFileSync(join(this.tempDir, POSTER_FILES[format]), image);
+    return true;
+  }
+
+  /**
+   * Returns the path of the saved poster, or null if there is none.
+   */
+  getPosterPath(): string | null {
+    for (const file of Object.values(POSTER_FILES)) {
+      if (existsSync(join(this.tempDir, file))) {
+        return join(this.tempDir, file);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Copies the last captured frame to targetPath (used for thumbnails).
+   *
+   * @returns False if there are no frames
+   */
+  copyLastFrame(targetPath: string): boolean {
+    const { lastFrame } = this.getFrameInfo();
+    if (!lastFrame) {
+      return false;
+    }
+    mkdirSync(dirname(targetPath), { recursive: true });
+    copyFileSync(join(this.tempDir, lastFrame), targetPath);
+    return true;
+  }
 }
 
+export interface AssembledVideo {
+  outputPaths: string[]; // main video followed by the encoding variants
+  duration: number; // expected video length in seconds
+}
+
+/**
+ * Assembles the captured frames into the main video and any encoding
+ * variants, all in one ffmpeg run.
+ *
+ * @param titleContext - Placeholder values for the title card text
+ * @param metadata - Tags written into the videos, such as the printer model
+ * @param logger - Where progress is reported, tagged with the printer's name
+ * @returns Paths of the written videos (main video first) and their length
+ */
 export async function assembleVideo(
   config: TimelapseConfig,
-  outputPath: string
-): Promise<void> {
+  outputPath: string,
+  titleContext: TemplateContext = {},
+  metadata: Record<string, string> = {},
+  logger: Logger = new Logger()
+): Promise<AssembledVideo> {
   const tempDir = resolve(config.tempDirectory);
   const inputPattern = join(tempDir, "img_%05d.jpg");
 
@@ -242,7 +529,7 @@ export async function assembleVideo(
 
   return new Promise((resolve, reject) => {
     // Check if we have any frames to assemble
-    const capture = new TimelapseCapture(config);
+    const capture = new TimelapseCapture(config, logger);
     const frameCount = capture.getCapturedFrameCount();
 
     if (frameCount === 0) {
@@ -250,19 +537,95 @@ export async function assembleVideo(
       return;
     }
 
-    // ffmpeg command: ffmpeg -framerate {framerate} -i {inputPattern} -c:v libx264 -pix_fmt yuv420p {outputPath}
+    const timing = planFrameTiming(config, frameCount);
+    const outputs = encodingOutputs(config, outputPath, metadata);
+    if (config.targetDurationSeconds) {
+      logger.log(
+        `Assembling ${frameCount} frames at ${timing.framerate} fps${
+          timing.filters.length > 0 ? ` (${timing.filters.join(",")})` : ""
+        } for a ${Math.round(timing.duration)}s video`
+      );
+    }
+
+    const postProcess = config.postProcess || {};
+    const beautyShotPath = join(tempDir, BEAUTY_SHOT_FILE);
+    let titleFile: string | null = null;
+    if (postProcess.titleCard) {
+      titleFile = join(tempDir, TITLE_FILE);
+      try {
+        writeFileSync(
+          titleFile,
+          renderTemplate(
+            postProcess.titleCard.text ?? DEFAULT_TITLE_TEXT,
+            titleContext
+          )
+        );
+      } catch (error) {
+        reject(
+          new TimelapseError(
+            `Failed to write title card text: ${(error as Error).message}`
+          )
+        );
+        return;
+      }
+    }
+
+    // Overlay cues follow the frames as they are read, before any dropping
+    const overlay = config.overlay;
+    const cues = overlay
+      ? buildCues(
+          new TelemetryLog(tempDir).read(),
+          frameCount,
+          timing.framerate,
+          overlay.fields
+        )
+      : [];
+    if (overlay && cues.length === 0) {
+      logger.warn("No telemetry recorded for this print, skipping overlay");
+    }
+    let subtitleFile: string | null = null;
+    if (overlay && overlay.burnIn !== false && cues.length > 0) {
+      subtitleFile = join(tempDir, OVERLAY_FILE);
+      try {
+        writeFileSync(subtitleFile, formatSrt(cues));
+      } catch (error) {
+        reject(
+          new TimelapseError(
+            `Failed to write overlay subtitles: ${(error as Error).message}`
+          )
+        );
+        return;
+      }
+    }
+
+    const graph = buildFilterGraph(config, outputs, timing, {
+      beautyShotPath:
+        postProcess.beautyShot && existsSync(beautyShotPath)
+          ? beautyShotPath
+          : null,
+      titleFile,
+      subtitleFile,
+    });
+
+    // ffmpeg command: ffmpeg -framerate {framerate} -i {inputPattern} [{beauty shot input}] -filter_complex {graph} -y -map [out0] {encoding args} {outputPath} [-map [outN] {variant args} {variantPath}...]
     const ffmpegArgs = [
       "-framerate",
-      config.outputFramerate.toString(),
+      timing.framerate.toString(),
       "-i",
       inputPattern,
-      "-c:v",
-      "libx264",
-      "-pix_fmt",
-      "yuv420p",
-      "-y", // Overwrite output file
-      outputPath,
+      ...graph.inputArgs,
+      "-filter_complex",
+      graph.filterComplex,
+      "-y", // Overwrite output files
     ];
+    outputs.forEach((output, index) => {
+      ffmpegArgs.push(
+        "-map",
+        `[${graph.outputLabels[index]}]`,
+        ...output.args,
+        output.path
+      );
+    });
 
     const assembleProcess = spawn("ffmpeg", ffmpegArgs, {
       stdio: ["ignore", "pipe", "pipe"],
@@ -288,9 +651,44 @@ export async function assembleVideo(
     });
 
     assembleProcess.on("exit", (code, signal) => {
+      for (const file of [titleFile, subtitleFile]) {
+        if (file) {
+          try {
+            unlinkSync(file);
+          } catch (error) {
+            // Already gone, ignore
+          }
+        }
+      }
+
       if (code === 0) {
-        console.log(`Video assembled successfully: ${outputPath}`);
-        resolve();
+        for (const output of outputs) {
+          logger.log(`Video assembled successfully: ${output.path}`);
+        }
+
+        if (overlay?.sidecar && cues.length > 0) {
+          // Shifted past the title card so it lines up with the main video
+          const sidecarPath = `${outputPath.replace(/\.[^/.]+$/, "")}.${
+            overlay.sidecar
+          }`;
+          const content =
+            overlay.sidecar === "vtt"
+              ? formatVtt(cues, graph.contentOffset)
+              : formatSrt(cues, graph.contentOffset);
+          try {
+            writeFileSync(sidecarPath, content);
+            logger.log(`Telemetry subtitles written: ${sidecarPath}`);
+          } catch (error) {
+            // The video itself is fine, so don't fail the assembly
+            logger.error(
+              `Failed to write telemetry subtitles: ${(error as Error).message}`
+            );
+          }
+        }
+        resolve({
+          outputPaths: outputs.map((output) => output.path),
+          duration: graph.duration,
+        });
       } else {
         reject(
           new TimelapseError(
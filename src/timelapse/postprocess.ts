@@ -0,0 +1,216 @@
+import { OverlayPosition, TimelapseConfig } from "../types/config";
+import { EncodingOutput } from "./encoding";
+import { FrameTiming } from "./timing";
+
+export const DEFAULT_TITLE_TEXT = "{fileName}\n{printDuration}";
+
+const DEFAULT_BEAUTY_SHOT_DURATION = 3; // seconds
+const DEFAULT_TITLE_DURATION = 3; // seconds
+const DEFAULT_TITLE_FONT_SIZE = 48;
+const DEFAULT_TITLE_FONT_COLOR = "white";
+const DEFAULT_OVERLAY_FONT_SIZE = 12;
+
+// libass alignment (numpad layout) for each overlay position
+const OVERLAY_ALIGNMENT: Record<OverlayPosition, number> = {
+  "bottom-left": 1,
+  bottom: 2,
+  "bottom-right": 3,
+  "top-left": 7,
+  top: 8,
+  "top-right": 9,
+};
+
+export interface FilterGraph {
+  inputArgs: string[]; // extra ffmpeg inputs, after the frame sequence
+  filterComplex: string;
+  outputLabels: string[]; // graph output to -map for each encoding output
+  duration: number; // expected video length in seconds
+  contentOffset: number; // seconds before the timelapse itself starts (title card)
+}
+
+export interface PostProcessInputs {
+  beautyShotPath: string | null; // still to show at the end, if one was taken
+  titleFile: string | null; // rendered title card text, if enabled
+  subtitleFile: string | null; // telemetry overlay to burn in, if enabled
+}
+
+// Escapes a filter option value for both the option parser (\ ' :) and the
+// filtergraph parser (quoted), so paths and colors pass through unchanged
+function filterValue(value: string): string {
+  const escaped = value.replace(/[\\':]/g, "\\$&");
+  return `'${escaped.replace(/'/g, "'\\''")}'`;
+}
+
+function chain(filters: string[]): string {
+  return filters.length > 0 ? filters.join(",") : "null";
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Splits an input stream so every encoding output gets its own copy
+function splitStream(
+  input: string,
+  prefix: string,
+  count: number,
+  parts: string[]
+): string[] {
+  if (count === 1) {
+    return [input];
+  }
+  const labels = Array.from({ length: count }, (_, index) => {
+    return `${prefix}${index}`;
+  });
+  parts.push(`[${input}]split=${count}${labels.map((l) => `[${l}]`).join("")}`);
+  return labels;
+}
+
+function titleFilters(
+  config: TimelapseConfig,
+  titleFile: string,
+  duration: number
+): string[] {
+  const titleCard = config.postProcess?.titleCard || {};
+  const fontSize = titleCard.fontSize ?? DEFAULT_TITLE_FONT_SIZE;
+  const drawtext = [
+    `textfile=${filterValue(titleFile)}`,
+    "expansion=none",
+    `fontsize=${fontSize}`,
+    `fontcolor=${filterValue(titleCard.fontColor || DEFAULT_TITLE_FONT_COLOR)}`,
+    `line_spacing=${Math.round(fontSize / 3)}`,
+    "x=(w-text_w)/2",
+    "y=(h-text_h)/2",
+  ];
+  if (titleCard.fontFile) {
+    drawtext.push(`fontfile=${filterValue(titleCard.fontFile)}`);
+  }
+
+  // One blacked-out frame of the video, so the card has its size and format
+  return [
+    "trim=end_frame=1",
+    "drawbox=color=black:t=fill",
+    `drawtext=${drawtext.join(":")}`,
+    `tpad=stop_mode=clone:stop_duration=${duration}`,
+    "setpts=PTS-STARTPTS",
+  ];
+}
+
+function overlayFilter(config: TimelapseConfig, subtitleFile: string): string {
+  const overlay = config.overlay || {};
+  const style = [
+    `Alignment=${OVERLAY_ALIGNMENT[overlay.position || "bottom-left"]}`,
+    `FontSize=${overlay.fontSize ?? DEFAULT_OVERLAY_FONT_SIZE}`,
+    "BorderStyle=1",
+    "Outline=1",
+    "Shadow=0",
+    "MarginL=10",
+    "MarginR=10",
+    "MarginV=10",
+  ];
+  return `subtitles=filename=${filterValue(
+    subtitleFile
+  )}:force_style=${filterValue(style.join(","))}`;
+}
+
+/**
+ * Builds the ffmpeg filter graph for assembly: frame timing and picture
+ * filters for each output, followed by the telemetry overlay and the
+ * post-processing steps (last frame hold or beauty shot, title card, fades).
+ */
+export function buildFilterGraph(
+  config: TimelapseConfig,
+  outputs: EncodingOutput[],
+  timing: FrameTiming,
+  inputs: PostProcessInputs
+): FilterGraph {
+  const postProcess = config.postProcess || {};
+  const parts: string[] = [];
+  const inputArgs: string[] = [];
+
+  const titleDuration = inputs.titleFile
+    ? postProcess.titleCard?.duration ?? DEFAULT_TITLE_DURATION
+    : 0;
+  const endDuration = inputs.beautyShotPath
+    ? postProcess.beautyShot?.duration ?? DEFAULT_BEAUTY_SHOT_DURATION
+    : postProcess.holdLastFrame || 0;
+  const duration = titleDuration + timing.duration + endDuration;
+
+  if (inputs.beautyShotPath) {
+    // The still is looped at the video's framerate for the hold duration
+    inputArgs.push(
+      "-loop",
+      "1",
+      "-framerate",
+      timing.outputFramerate.toString(),
+      "-t",
+      endDuration.toString(),
+      "-i",
+      inputs.beautyShotPath
+    );
+  }
+
+  const frameLabels = splitStream("0:v", "frames", outputs.length, parts);
+  const beautyLabels = inputs.beautyShotPath
+    ? splitStream("1:v", "beauty", outputs.length, parts)
+    : [];
+
+  const outputLabels = outputs.map((output, index) => {
+    let label = `main${index}`;
+
+    const mainFilters = [...timing.filters, ...output.filters];
+    if (inputs.subtitleFile) {
+      mainFilters.push(overlayFilter(config, inputs.subtitleFile));
+    }
+    if (!inputs.beautyShotPath && postProcess.holdLastFrame) {
+      mainFilters.push(
+        `tpad=stop_mode=clone:stop_duration=${postProcess.holdLastFrame}`
+      );
+    }
+    parts.push(`[${frameLabels[index]}]${chain(mainFilters)}[${label}]`);
+
+    if (inputs.beautyShotPath) {
+      parts.push(
+        `[${beautyLabels[index]}]${chain(output.filters)}[shot${index}]`,
+        `[${label}][shot${index}]concat=n=2:v=1:a=0[ending${index}]`
+      );
+      label = `ending${index}`;
+    }
+
+    if (inputs.titleFile) {
+      const segments =
+        postProcess.titleCard?.position === "end"
+          ? `[body${index}][title${index}]`
+          : `[title${index}][body${index}]`;
+      parts.push(
+        `[${label}]split[card${index}][body${index}]`,
+        `[card${index}]${chain(
+          titleFilters(config, inputs.titleFile, titleDuration)
+        )}[title${index}]`,
+        `${segments}concat=n=2:v=1:a=0[titled${index}]`
+      );
+      label = `titled${index}`;
+    }
+
+    const fades: string[] = [];
+    if (postProcess.fadeIn) {
+      fades.push(`fade=t=in:st=0:d=${postProcess.fadeIn}`);
+    }
+    if (postProcess.fadeOut) {
+      const start = round(Math.max(0, duration - postProcess.fadeOut));
+      fades.push(`fade=t=out:st=${start}:d=${postProcess.fadeOut}`);
+    }
+    parts.push(`[${label}]${chain(fades)}[out${index}]`);
+
+    return `out${index}`;
+  });
+
+  return {
+    inputArgs,
+    filterComplex: parts.join(";"),
+    outputLabels,
+    duration,
+    contentOffset:
+      postProcess.titleCard?.position === "end" ? 0 : titleDuration,
+  };
+}
@@ -0,0 +1,401 @@
+import { spawn } from "child_process";
+import {
+  copyFileSync,
+  createWriteStream,
+  readdirSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { get as httpGet } from "http";
+import { get as httpsGet } from "https";
+import { join, resolve } from "path";
+import { PrusaLinkClient, prusaLinkUrl } from "../api/client";
+import {
+  FrameSourceConfig,
+  PrusaLinkConfig,
+  TimelapseConfig,
+} from "../types/config";
+
+const FRAME_GRAB_TIMEOUT_MS = 15000;
+
+const DEFAULT_TEST_PATTERN_SIZE = "1280x720";
+const TEST_PATTERN_RATE = 10; // frames per second generated
+
+/**
+ * Where frames come from. Streaming sources hand ffmpeg their input
+ * arguments and let it sample the stream; polled sources have no stream and
+ * are asked for one still per capture interval instead.
+ */
+export interface FrameSource {
+  // Human-readable description for logs (credentials removed)
+  readonly description: string;
+
+  // ffmpeg input arguments for continuous capture, or null if frames must be polled
+  ffmpegInputArgs(): string[] | null;
+
+  // Writes a single JPEG still to framePath
+  grabFrame(framePath: string): Promise<void>;
+}
+
+/**
+ * Returns the configured frame source, treating the legacy `rtspUrl`
+ * option as an RTSP source.
+ */
+export function resolveSourceConfig(
+  config: TimelapseConfig
+): FrameSourceConfig {
+  return config.source || { type: "rtsp", url: config.rtspUrl || "" };
+}
+
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (parsed.password) {
+      parsed.password = "***";
+    }
+    return parsed.toString();
+  } catch (error) {
+    return url;
+  }
+}
+
+function basicAuthHeader(username?: string, password?: string): string | null {
+  if (username === undefined) {
+    return null;
+  }
+  const credentials = Buffer.from(`${username}:${password || ""}`);
+  return `Basic ${credentials.toString("base64")}`;
+}
+
+/**
+ * Sources read by ffmpeg. Continuous capture is a long-running ffmpeg
+ * process; single grabs run ffmpeg with `-frames:v 1`.
+ */
+abstract class FfmpegFrameSource implements FrameSource {
+  abstract readonly description: string;
+  abstract ffmpegInputArgs(): string[];
+
+  grabFrame(framePath: string): Promise<void> {
+    // ffmpeg command: ffmpeg {inputArgs} -frames:v 1 -y {framePath}
+    const ffmpegArgs = [
+      ...this.ffmpegInputArgs(),
+      "-frames:v",
+      "1",
+      "-y",
+      framePath,
+    ];
+
+    return new Promise((resolve, reject) => {
+      const grabProcess = spawn("ffmpeg", ffmpegArgs, {
+        stdio: ["ignore", "ignore", "pipe"],
+      });
+
+      let stderr = "";
+      if (grabProcess.stderr) {
+        grabProcess.stderr.on("data", (data) => {
+          stderr += data;
+        });
+      }
+
+      // Don't let a stalled stream block the next frame
+      const timeout = setTimeout(() => {
+        grabProcess.kill("SIGKILL");
+      }, FRAME_GRAB_TIMEOUT_MS);
+
+      grabProcess.on("error", (error) => {
+        clearTimeout(timeout);
+        reject(new Error(`ffmpeg grab error: ${error.message}`));
+      });
+
+      grabProcess.on("exit", (code) => {
+        clearTimeout(timeout);
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(
+            new Error(`ffmpeg grab failed with code ${code}. stderr: ${stderr}`)
+          );
+        }
+      });
+    });
+  }
+}
+
+class RtspFrameSource extends FfmpegFrameSource {
+  readonly description: string;
+  private url: string;
+  private transport: string;
+
+  constructor(url: string, transport: "tcp" | "udp" = "tcp") {
+    super();
+    this.url = url;
+    this.transport = transport;
+    this.description = `RTSP ${redactUrl(url)}`;
+  }
+
+  ffmpegInputArgs(): string[] {
+    return ["-rtsp_transport", this.transport, "-i", this.url];
+  }
+}
+
+class MjpegFrameSource extends FfmpegFrameSource {
+  readonly description: string;
+  private url: string;
+  private authorization: string | null;
+
+  constructor(url: string, username?: string, password?: string) {
+    super();
+    this.url = url;
+    this.authorization = basicAuthHeader(username, password);
+    this.description = `MJPEG ${redactUrl(url)}`;
+  }
+
+  ffmpegInputArgs(): string[] {
+    const args: string[] = [];
+    if (this.authorization) {
+      args.push("-headers", `Authorization: ${this.authorization}\r\n`);
+    }
+    return [...args, "-i", this.url];
+  }
+}
+
+class V4l2FrameSource extends FfmpegFrameSource {
+  readonly description: string;
+  private device: string;
+  private inputFormat?: string;
+  private videoSize?: string;
+
+  constructor(device: string, inputFormat?: string, videoSize?: string) {
+    super();
+    this.device = device;
+    this.inputFormat = inputFormat;
+    this.videoSize = videoSize;
+    this.description = `V4L2 ${device}`;
+  }
+
+  ffmpegInputArgs(): string[] {
+    const args = ["-f", "v4l2"];
+    if (this.inputFormat) {
+      args.push("-input_format", this.inputFormat);
+    }
+    if (this.videoSize) {
+      args.push("-video_size", this.videoSize);
+    }
+    return [...args, "-i", this.device];
+  }
+}
+
+/**
+ * ffmpeg's generated test pattern, paced at real time. Stands in for a
+ * camera when trying out capture, for example against the simulator.
+ */
+class TestPatternFrameSource extends FfmpegFrameSource {
+  readonly description: string;
+  private videoSize: string;
+
+  constructor(videoSize = DEFAULT_TEST_PATTERN_SIZE) {
+    super();
+    this.videoSize = videoSize;
+    this.description = `test pattern ${videoSize}`;
+  }
+
+  ffmpegInputArgs(): string[] {
+    return [
+      "-re",
+      "-f",
+      "lavfi",
+      "-i",
+      `testsrc2=size=${this.videoSize}:rate=${TEST_PATTERN_RATE}`,
+    ];
+  }
+}
+
+/**
+ * Cameras that only serve a JPEG per request (Buddy camera, ESP32-CAM).
+ */
+class HttpSnapshotFrameSource implements FrameSource {
+  readonly description: string;
+  private url: string;
+  private headers: Record<string, string>;
+
+  constructor(
+    url: string,
+    headers: Record<string, string> = {},
+    username?: string,
+    password?: string
+  ) {
+    this.url = url;
+    this.headers = { ...headers };
+    const authorization = basicAuthHeader(username, password);
+    if (authorization) {
+      this.headers.Authorization = authorization;
+    }
+    this.description = `HTTP snapshot ${redactUrl(url)}`;
+  }
+
+  ffmpegInputArgs(): null {
+    return null;
+  }
+
+  grabFrame(framePath: string): Promise<void> {
+    const get = this.url.startsWith("https:") ? httpsGet : httpGet;
+    const partialPath = `${framePath}.part`;
+
+    return new Promise((resolve, reject) => {
+      const fail = (error: Error) => {
+        try {
+          unlinkSync(partialPath);
+        } catch (unlinkError) {
+          // Partial file might not exist, ignore
+        }
+        reject(error);
+      };
+
+      const req = get(
+        this.url,
+        {
+          headers: { "User-Agent": "prusa-timelapse/1.0.0", ...this.headers },
+        },
+        (res) => {
+          if (res.statusCode !== 200) {
+            res.resume();
+            fail(
+              new Error(
+                `Snapshot request failed: HTTP ${res.statusCode} ${res.statusMessage}`
+              )
+            );
+            return;
+          }
+
+          // Write to a temp name so a half-written frame never matches img_*.jpg
+          const file = createWriteStream(partialPath);
+          res.pipe(file);
+          file.on("finish", () => {
+            try {
+              renameSync(partialPath, framePath);
+              resolve();
+            } catch (error) {
+              fail(error as Error);
+            }
+          });
+          file.on("error", fail);
+          res.on("error", fail);
+        }
+      );
+
+      req.on("error", (error) => {
+        fail(new Error(`Snapshot request failed: ${error.message}`));
+      });
+
+      req.setTimeout(FRAME_GRAB_TIMEOUT_MS, () => {
+        req.destroy(new Error("Snapshot request timeout"));
+      });
+    });
+  }
+}
+
+/**
+ * Replays a directory of JPEG images in name order, one per grab.
+ * Useful for testing the capture path without a camera.
+ */
+class FileFrameSource implements FrameSource {
+  readonly description: string;
+  private directory: string;
+  private loop: boolean;
+  private nextIndex = 0;
+
+  constructor(directory: string, loop = false) {
+    this.directory = resolve(directory);
+    this.loop = loop;
+    this.description = `image directory ${this.directory}`;
+  }
+
+  ffmpegInputArgs(): null {
+    return null;
+  }
+
+  async grabFrame(framePath: string): Promise<void> {
+    const images = readdirSync(this.directory)
+      .filter((file) => /\.jpe?g$/i.test(file))
+      .sort();
+
+    if (images.length === 0) {
+      throw new Error(`No JPEG images found in ${this.directory}`);
+    }
+    if (this.nextIndex >= images.length) {
+      if (!this.loop) {
+        throw new Error(`All ${images.length} images have been replayed`);
+      }
+      this.nextIndex = 0;
+    }
+
+    copyFileSync(join(this.directory, images[this.nextIndex]), framePath);
+    this.nextIndex++;
+  }
+}
+
+/**
+ * Snapshots of a camera attached to the printer, through the PrusaLink
+ * camera API. Frames are as fresh as the camera's own snapshot interval.
+ */
+class PrusaLinkFrameSource implements FrameSource {
+  readonly description: string;
+  private client: PrusaLinkClient;
+  private cameraId?: string;
+
+  constructor(prusaLink: PrusaLinkConfig, cameraId?: string) {
+    this.client = new PrusaLinkClient(prusaLink);
+    this.cameraId = cameraId;
+    this.description = `PrusaLink camera ${
+      cameraId || "(default)"
+    } at ${prusaLinkUrl(prusaLink)}`;
+  }
+
+  ffmpegInputArgs(): null {
+    return null;
+  }
+
+  async grabFrame(framePath: string): Promise<void> {
+    const image = await this.client.getSnapshot(this.cameraId);
+    if (!image) {
+      throw new Error("PrusaLink camera has no snapshot yet");
+    }
+
+    // Write to a temp name so a half-written frame never matches img_*.jpg
+    const partialPath = `${framePath}.part`;
+    writeFileSync(partialPath, image);
+    renameSync(partialPath, framePath);
+  }
+}
+
+export function createFrameSource(config: FrameSourceConfig): FrameSource {
+  switch (config.type) {
+    case "rtsp":
+      return new RtspFrameSource(config.url, config.transport);
+    case "mjpeg":
+      return new MjpegFrameSource(config.url, config.username, config.password);
+    case "v4l2":
+      return new V4l2FrameSource(
+        config.device || "/dev/video0",
+        config.inputFormat,
+        config.videoSize
+      );
+    case "http-snapshot":
+      return new HttpSnapshotFrameSource(
+        config.url,
+        config.headers,
+        config.username,
+        config.password
+      );
+    case "file":
+      return new FileFrameSource(config.directory, config.loop);
+    case "testsrc":
+      return new TestPatternFrameSource(config.videoSize);
+    case "prusalink":
+      if (!config.prusaLink) {
+        throw new Error("PrusaLink camera source has no printer connection");
+      }
+      return new PrusaLinkFrameSource(config.prusaLink, config.cameraId);
+  }
+}
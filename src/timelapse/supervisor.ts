@@ -0,0 +1,218 @@
+import { Logger } from "../logger";
+import { TimelapseConfig } from "../types/config";
+import { TimelapseCapture } from ".";
+
+const DEFAULT_STALE_FRAME_INTERVALS = 3;
+const DEFAULT_MAX_CAPTURE_RESTARTS = 10;
+const DEFAULT_CAPTURE_RESTART_DELAY = 5; // seconds
+const MAX_CAPTURE_RESTART_DELAY = 300; // seconds
+const CHECK_INTERVAL_MS = 5000;
+
+// ffmpeg needs a moment to connect before the first frame appears
+const MIN_STALE_TIMEOUT_MS = 30000;
+
+/**
+ * Watches a running capture and restarts it (resuming the frame sequence)
+ * when the ffmpeg process dies or stops producing frames. Restarts back off
+ * exponentially and stop once the restart budget is used up.
+ *
+ * Layer mode captures have no process and no regular frame cadence, so they
+ * are not supervised.
+ */
+export class CaptureSupervisor {
+  private capture: TimelapseCapture;
+  private config: TimelapseConfig;
+  private logger: Logger;
+  private onDegraded: (reason: string) => void;
+  private checkTimer: NodeJS.Timeout | null = null;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private pendingRestart: Promise<void> | null = null;
+  private isSupervising = false;
+  private isDegraded = false; // a failure was seen and no new frame since
+  private restartCount = 0;
+  private consecutiveFailures = 0;
+  private lastFrameNumber = 0;
+  private lastProgressAt = 0; // timestamp the last new frame was seen
+
+  /**
+   * @param onDegraded - Called when a healthy capture fails, and again if
+   *   the restart budget runs out
+   */
+  constructor(
+    capture: TimelapseCapture,
+    config: TimelapseConfig,
+    logger: Logger,
+    onDegraded: (reason: string) => void
+  ) {
+    this.capture = capture;
+    this.config = config;
+    this.logger = logger;
+    this.onDegraded = onDegraded;
+
+    this.capture.onUnexpectedExit((reason) => {
+      this.handleFailure(reason);
+    });
+  }
+
+  /**
+   * Starts supervising the capture. Call after startCapture(); the restart
+   * budget starts over.
+   */
+  start(): void {
+    this.clearTimers();
+    if (this.capture.getMode() === "layer") {
+      return;
+    }
+
+    this.isSupervising = true;
+    this.isDegraded = false;
+    this.restartCount = 0;
+    this.consecutiveFailures = 0;
+    this.markProgress();
+
+    this.checkTimer = setInterval(() => {
+      this.check();
+    }, CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stops supervising and waits for a restart in progress. Call before
+   * stopCapture() so a pending restart can't bring the capture back.
+   */
+  async stop(): Promise<void> {
+    this.isSupervising = false;
+    this.isDegraded = false;
+    this.clearTimers();
+    if (this.pendingRestart) {
+      await this.pendingRestart;
+    }
+  }
+
+  isCaptureDegraded(): boolean {
+    return this.isDegraded;
+  }
+
+  getRestartCount(): number {
+    return this.restartCount;
+  }
+
+  private check(): void {
+    if (!this.isSupervising || this.restartTimer || this.pendingRestart) {
+      return;
+    }
+
+    if (!this.capture.isCurrentlyCapturing()) {
+      this.handleFailure("Capture is not running");
+      return;
+    }
+
+    const highestFrame = this.capture.getHighestFrameNumber();
+    if (highestFrame > this.lastFrameNumber) {
+      if (this.isDegraded) {
+        this.logger.log(`Capture recovered (frame ${highestFrame})`);
+      }
+      this.markProgress();
+      this.isDegraded = false;
+      this.consecutiveFailures = 0;
+      return;
+    }
+
+    const staleIntervals =
+      this.config.staleFrameIntervals ?? DEFAULT_STALE_FRAME_INTERVALS;
+    if (staleIntervals <= 0) {
+      return;
+    }
+
+    const staleTimeout = Math.max(
+      staleIntervals * this.capture.getCaptureInterval() * 1000,
+      MIN_STALE_TIMEOUT_MS
+    );
+    const elapsed = Date.now() - this.lastProgressAt;
+    if (elapsed >= staleTimeout) {
+      this.handleFailure(`No new frame for ${Math.round(elapsed / 1000)}s`);
+    }
+  }
+
+  private handleFailure(reason: string): void {
+    if (!this.isSupervising || this.restartTimer || this.pendingRestart) {
+      return;
+    }
+
+    const maxRestarts =
+      this.config.maxCaptureRestarts ?? DEFAULT_MAX_CAPTURE_RESTARTS;
+    if (this.restartCount >= maxRestarts) {
+      this.logger.error(
+        `${reason} - giving up after ${this.restartCount} capture restarts`
+      );
+      this.isSupervising = false;
+      this.isDegraded = true;
+      this.clearTimers();
+      this.onDegraded(
+        `${reason}; giving up after ${this.restartCount} capture restarts`
+      );
+      return;
+    }
+
+    const baseDelay =
+      this.config.captureRestartDelay ?? DEFAULT_CAPTURE_RESTART_DELAY;
+    const delay = Math.min(
+      baseDelay * 2 ** this.consecutiveFailures,
+      MAX_CAPTURE_RESTART_DELAY
+    );
+    this.consecutiveFailures++;
+    this.restartCount++;
+
+    this.logger.warn(
+      `${reason} - restarting capture in ${delay}s (restart ${this.restartCount} of ${maxRestarts})`
+    );
+
+    // Only report the change from healthy to degraded, not every retry
+    if (!this.isDegraded) {
+      this.isDegraded = true;
+      this.onDegraded(reason);
+    }
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.pendingRestart = this.restart().then((error) => {
+        this.pendingRestart = null;
+        if (error) {
+          this.handleFailure(`Capture restart failed: ${error}`);
+        }
+      });
+    }, delay * 1000);
+  }
+
+  // Resolves with an error message instead of rejecting
+  private async restart(): Promise<string | null> {
+    try {
+      // Kills a process that is still running but no longer writing frames
+      await this.capture.stopCapture();
+      if (!this.isSupervising) {
+        return null;
+      }
+      await this.capture.startCapture(true);
+      this.markProgress();
+      this.logger.log("Capture restarted");
+      return null;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+
+  private markProgress(): void {
+    this.lastFrameNumber = this.capture.getHighestFrameNumber();
+    this.lastProgressAt = Date.now();
+  }
+
+  private clearTimers(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+  }
+}
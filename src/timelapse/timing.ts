@@ -0,0 +1,99 @@
+import { TimelapseConfig } from "../types/config";
+
+const DEFAULT_MIN_FRAMERATE = 10;
+const DEFAULT_MAX_FRAMERATE = 60;
+const MIN_CAPTURE_INTERVAL = 1; // seconds
+
+export interface FrameTiming {
+  framerate: number; // rate the frames are read at
+  filters: string[]; // filters that drop or blend frames, applied first
+  outputFramerate: number; // framerate of the video after the filters
+  duration: number; // expected video length in seconds
+}
+
+function framerateBounds(config: TimelapseConfig): [number, number] {
+  return [
+    config.minFramerate ?? DEFAULT_MIN_FRAMERATE,
+    config.maxFramerate ?? DEFAULT_MAX_FRAMERATE,
+  ];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Decides how the frames are played back. Without a target duration every
+ * frame is shown at outputFramerate. With one, the framerate is chosen so the
+ * video lands on the target, within the min/max framerate bounds; when even
+ * the max framerate is too slow, frames are dropped or blended (depending on
+ * frameSelection) down to the max framerate.
+ */
+export function planFrameTiming(
+  config: TimelapseConfig,
+  frameCount: number
+): FrameTiming {
+  const target = config.targetDurationSeconds;
+  if (!target) {
+    return {
+      framerate: config.outputFramerate,
+      filters: [],
+      outputFramerate: config.outputFramerate,
+      duration: frameCount / config.outputFramerate,
+    };
+  }
+
+  const [minFramerate, maxFramerate] = framerateBounds(config);
+  const idealFramerate = Math.round((frameCount / target) * 1000) / 1000;
+  const selection = config.frameSelection || "drop";
+
+  if (idealFramerate <= maxFramerate || selection === "framerate") {
+    const framerate = clamp(idealFramerate, minFramerate, maxFramerate);
+    return {
+      framerate,
+      filters: [],
+      outputFramerate: framerate,
+      duration: frameCount / framerate,
+    };
+  }
+
+  // Read the frames fast enough to hit the target, then thin them out
+  const filters =
+    selection === "blend"
+      ? [
+          `tmix=frames=${Math.ceil(idealFramerate / maxFramerate)}`,
+          `fps=${maxFramerate}`,
+        ]
+      : [`fps=${maxFramerate}`];
+  return {
+    framerate: idealFramerate,
+    filters,
+    outputFramerate: maxFramerate,
+    duration: target,
+  };
+}
+
+/**
+ * Picks the capture interval for a new print from its estimated remaining
+ * time, so it yields about targetDurationSeconds of video at outputFramerate
+ * (kept within the framerate bounds). Falls back to captureInterval when
+ * automatic intervals are off or the printer gives no estimate.
+ */
+export function chooseCaptureInterval(
+  config: TimelapseConfig,
+  timeRemaining: number | undefined
+): number {
+  if (
+    !config.autoCaptureInterval ||
+    !config.targetDurationSeconds ||
+    !timeRemaining ||
+    timeRemaining <= 0
+  ) {
+    return config.captureInterval;
+  }
+
+  const [minFramerate, maxFramerate] = framerateBounds(config);
+  const framerate = clamp(config.outputFramerate, minFramerate, maxFramerate);
+  const frameCount = config.targetDurationSeconds * framerate;
+  return Math.max(MIN_CAPTURE_INTERVAL, Math.round(timeRemaining / frameCount));
+}
@@ -42,13 +42,21 @@ export interface StatusJob {
   display_path?: string;
 }
 
+// Links to a file's previews and contents, as paths on the printer
+export interface FileRefs {
+  icon?: string;
+  thumbnail?: string;
+  download?: string;
+}
+
 export interface JobFile {
   name: string;
   display_name: string;
-  path: string;
+  path: string; // directory, e.g. "/usb"
   display_path: string;
   size: number;
   m_timestamp: number;
+  refs?: FileRefs;
 }
 
 export interface Job {
@@ -73,3 +81,67 @@ export interface StatusResponse {
   job?: StatusJob;
   transfer?: StatusTransfer;
 }
+
+// GET /api/version. Fields beyond api, server and text depend on the firmware
+export interface VersionInfo {
+  api: string;
+  server: string;
+  text: string;
+  original?: string; // e.g. "PrusaLink MK4"
+  firmware?: string;
+  sdk?: string;
+  hostname?: string;
+  nozzle_diameter?: number;
+  capabilities?: Record<string, boolean>;
+}
+
+// GET /api/v1/info
+export interface PrinterInfo {
+  name?: string;
+  location?: string;
+  hostname?: string;
+  serial?: string;
+  nozzle_diameter?: number;
+  mmu?: boolean;
+  min_extrusion_temp?: number;
+  farm_mode?: boolean;
+  sd_ready?: boolean;
+  active_camera?: boolean;
+}
+
+// GET /api/v1/files/{storage}/{path}
+export interface FileInfo {
+  name: string;
+  display_name?: string;
+  type?: string; // "PRINT_FILE", "FIRMWARE", "FILE" or "FOLDER"
+  size?: number;
+  m_timestamp?: number;
+  read_only?: boolean;
+  refs?: FileRefs;
+  meta?: Record<string, unknown>; // G-code metadata, such as the estimated print time
+}
+
+export interface CameraConfig {
+  name?: string;
+  driver?: string;
+  path?: string;
+  resolution?: {
+    width: number;
+    height: number;
+  };
+  trigger_scheme?: string;
+}
+
+export interface CameraInfo {
+  camera_id: string;
+  config?: CameraConfig;
+  connected?: boolean;
+  detected?: boolean;
+  stored?: boolean;
+  linked?: boolean;
+}
+
+// GET /api/v1/cameras
+export interface CamerasResponse {
+  camera_list: CameraInfo[];
+}
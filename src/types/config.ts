@@ -1,25 +1,285 @@
+export interface ApiKeyAuthConfig {
+  type: "apikey"; // sent as X-Api-Key
+  apiKey: string;
+}
+
+export interface DigestAuthConfig {
+  type: "digest"; // HTTP Digest, used by newer firmware
+  username: string;
+  password: string;
+}
+
+export type PrusaLinkAuthConfig = ApiKeyAuthConfig | DigestAuthConfig;
+
 export interface PrusaLinkConfig {
   host: string;
-  port: number;
-  apiKey: string;
+  port: number; // default: 80, or 443 with https
+  apiKey?: string; // shorthand for API key auth (required unless auth is set)
+  auth?: PrusaLinkAuthConfig;
+  protocol?: "http" | "https"; // default: "http"
+  ca?: string; // PEM file of the CA that signed the server certificate (https only)
+  insecure?: boolean; // don't verify the server certificate (https only)
+  timeout?: number; // seconds before a request is aborted (default: 10)
+  retries?: number; // extra attempts after a network error or timeout (default: 2)
+  retryDelay?: number; // seconds before the first retry, doubled for each further one (default: 1)
+  failureThreshold?: number; // failed requests in a row before polling slows down (default: 3, 0 disables)
+  maxBackoff?: number; // longest wait between polls while the printer is unreachable, in seconds (default: 300)
+}
+
+export type CaptureMode = "interval" | "layer";
+
+export type OrphanPolicy = "assemble" | "quarantine";
+
+export interface RtspSourceConfig {
+  type: "rtsp";
+  url: string;
+  transport?: "tcp" | "udp"; // default: "tcp"
+}
+
+export interface HttpSnapshotSourceConfig {
+  type: "http-snapshot"; // polled once per captureInterval
+  url: string;
+  username?: string; // HTTP Basic auth
+  password?: string;
+  headers?: Record<string, string>;
+}
+
+export interface MjpegSourceConfig {
+  type: "mjpeg";
+  url: string;
+  username?: string; // HTTP Basic auth
+  password?: string;
+}
+
+export interface V4l2SourceConfig {
+  type: "v4l2";
+  device?: string; // default: "/dev/video0"
+  inputFormat?: string; // e.g. "mjpeg"
+  videoSize?: string; // e.g. "1920x1080"
+}
+
+export interface FileSourceConfig {
+  type: "file"; // replays a directory of JPEG images, one per captureInterval
+  directory: string;
+  loop?: boolean; // start over after the last image (default: false)
+}
+
+export interface TestPatternSourceConfig {
+  type: "testsrc"; // ffmpeg test pattern, for trying out capture without a camera
+  videoSize?: string; // default: "1280x720"
+}
+
+export interface PrusaLinkCameraSourceConfig {
+  type: "prusalink"; // snapshots of a camera attached to the printer, one per captureInterval
+  cameraId?: string; // default: the printer's default camera
+  prusaLink?: PrusaLinkConfig; // filled in from the printer by resolvePrinters
+}
+
+export type FrameSourceConfig =
+  | RtspSourceConfig
+  | HttpSnapshotSourceConfig
+  | MjpegSourceConfig
+  | V4l2SourceConfig
+  | FileSourceConfig
+  | TestPatternSourceConfig
+  | PrusaLinkCameraSourceConfig;
+
+export type ThumbnailSource = "last-frame" | "gcode";
+
+export type FrameSelection = "framerate" | "drop" | "blend";
+
+export type VideoCodec = "x264" | "x265" | "vp9" | "av1-aom" | "av1-svt";
+
+export type VideoContainer = "mp4" | "webm" | "mkv";
+
+export interface EncodingSettings {
+  codec?: VideoCodec; // default: "x264"
+  crf?: number; // quality, lower is better (encoder default if unset)
+  preset?: string; // encoder speed preset (-preset, -deadline for vp9, -cpu-used for av1-aom)
+  container?: VideoContainer; // default: "mp4"
+  crop?: { width: number; height: number; x?: number; y?: number }; // applied before rotate/flip/scale
+  rotate?: 0 | 90 | 180 | 270; // clockwise degrees
+  flip?: "horizontal" | "vertical";
+  scale?: { width?: number; height?: number }; // a missing side keeps the aspect ratio
+}
+
+export interface EncodingVariantConfig extends EncodingSettings {
+  suffix: string; // appended to the output file name, e.g. "_1080p"
+}
+
+export interface EncodingConfig extends EncodingSettings {
+  variants?: EncodingVariantConfig[]; // extra videos; unset settings are taken from the main encoding
+}
+
+export interface BeautyShotConfig {
+  delay?: number; // seconds to wait after the print finishes, so the toolhead has parked (default: 10)
+  duration?: number; // seconds the shot is shown at the end of the video (default: 3)
+}
+
+export interface TitleCardConfig {
+  text?: string; // template, default: "{fileName}\n{printDuration}"
+  duration?: number; // seconds (default: 3)
+  position?: "start" | "end"; // default: "start"
+  fontSize?: number; // pixels (default: 48)
+  fontColor?: string; // ffmpeg color (default: "white")
+  fontFile?: string; // TrueType font (default: fontconfig's sans-serif)
+}
+
+export interface PostProcessConfig {
+  holdLastFrame?: number; // seconds to keep showing the last frame (ignored when a beauty shot was taken)
+  beautyShot?: BeautyShotConfig; // extra still taken after a FINISHED print, shown at the end
+  fadeIn?: number; // seconds
+  fadeOut?: number; // seconds
+  titleCard?: TitleCardConfig;
+}
+
+export type OverlayField =
+  | "progress"
+  | "elapsed"
+  | "remaining"
+  | "layer"
+  | "temperatures"
+  | "speed"
+  | "flow";
+
+export type OverlayPosition =
+  | "top-left"
+  | "top"
+  | "top-right"
+  | "bottom-left"
+  | "bottom"
+  | "bottom-right";
+
+export interface OverlayConfig {
+  fields?: OverlayField[]; // in display order (default: progress, elapsed, layer, temperatures)
+  position?: OverlayPosition; // default: "bottom-left"
+  fontSize?: number; // relative to a 288-line frame, scaled with the video (default: 12)
+  burnIn?: boolean; // draw the overlay into the video (default: true)
+  sidecar?: "srt" | "vtt"; // also write a subtitle file next to the video
+}
+
+export interface RetentionConfig {
+  maxAgeDays?: number; // delete timelapses older than this
+  maxCount?: number; // keep at most this many timelapses per printer
+  maxTotalBytes?: number; // keep this printer's timelapses below this size
+  quarantineMaxAgeDays?: number; // delete quarantined frame sets older than this
+  interval?: number; // seconds between cleanup runs (default: 3600)
+}
+
+export type LowDiskSpaceAction = "warn" | "pause" | "thin";
+
+export interface DiskSpaceConfig {
+  warnFreeBytes?: number; // warn when the temp volume has less free space (default: 2 x minFreeBytes)
+  minFreeBytes: number; // take `action` below this
+  action?: LowDiskSpaceAction; // default: "pause"
 }
 
 export interface TimelapseConfig {
-  rtspUrl: string;
+  rtspUrl?: string; // shorthand for an RTSP source (required unless source is set)
+  source?: FrameSourceConfig;
   captureInterval: number; // seconds between frames
   outputFramerate: number; // fps for output video
   outputDirectory: string;
   tempDirectory: string;
+  outputPrefix?: string; // prefix for output video filenames (default: "timelapse")
+  outputFilenameTemplate?: string; // e.g. "{prefix}_{fileName}_{finishedAt:YYYYMMDD-HHmm}" (".mp4" is appended)
+  mode?: CaptureMode; // "interval" (default) grabs on a timer, "layer" grabs one frame per Z change
+  layerSettleDelay?: number; // seconds to wait after a Z change before grabbing (layer mode only)
+  orphanPolicy?: OrphanPolicy; // what to do with frames from a different job at startup (default: "quarantine")
+  pauseOnAttention?: boolean; // also suspend capture in ATTENTION state, like PAUSED (default: false)
+  staleFrameIntervals?: number; // restart capture after this many intervals without a new frame (default: 3, 0 disables)
+  maxCaptureRestarts?: number; // restarts allowed per capture before giving up (default: 10)
+  captureRestartDelay?: number; // seconds before the first restart, doubled on every consecutive failure (default: 5)
+  encoding?: EncodingConfig; // default: x264 in an MP4
+  targetDurationSeconds?: number; // aim for this video length instead of a fixed outputFramerate
+  minFramerate?: number; // lowest framerate used to reach the target duration (default: 10)
+  maxFramerate?: number; // highest framerate used to reach the target duration (default: 60)
+  frameSelection?: FrameSelection; // when max framerate isn't enough: "drop" (default) or "blend" frames, or accept a longer video ("framerate")
+  autoCaptureInterval?: boolean; // pick the capture interval from the print's remaining time (needs targetDurationSeconds)
+  postProcess?: PostProcessConfig; // last-frame hold, beauty shot, fades and title card
+  overlay?: OverlayConfig; // printer telemetry shown over the video
+  report?: boolean; // write a JSON and CSV print report next to the video (default: true)
+  thumbnail?: ThumbnailSource; // library thumbnail and video poster: the last frame (default) or the G-code's embedded preview
+  retention?: RetentionConfig; // clean up old timelapses and quarantined frames
+  diskSpace?: DiskSpaceConfig; // guard against the temp volume filling up
+}
+
+export type NotificationEvent =
+  | "print_started"
+  | "capture_failed"
+  | "capture_degraded"
+  | "disk_space_low"
+  | "watchdog_triggered"
+  | "assembly_failed"
+  | "timelapse_completed";
+
+interface NotificationChannelBaseConfig {
+  events?: NotificationEvent[]; // events delivered to this channel (default: all)
+  retries?: number; // extra attempts after a failed delivery (default: 0)
+  retryDelay?: number; // seconds between attempts (default: 5)
+  timeout?: number; // seconds before a delivery attempt is aborted (default: 30)
+}
+
+export interface ShellChannelConfig extends NotificationChannelBaseConfig {
+  type: "shell";
+  command: string;
+}
+
+export interface WebhookChannelConfig extends NotificationChannelBaseConfig {
+  type: "webhook";
+  url: string; // http:// or https://, receives the event as a JSON body
+  method?: "POST" | "PUT"; // default: "POST"
+  headers?: Record<string, string>;
 }
 
+export interface MqttChannelConfig extends NotificationChannelBaseConfig {
+  type: "mqtt";
+  host: string;
+  port?: number; // default: 1883
+  topic: string;
+  username?: string;
+  password?: string;
+  clientId?: string; // default: "prusa-timelapse-<random>"
+  retain?: boolean;
+}
+
+export type NotificationChannelConfig =
+  | ShellChannelConfig
+  | WebhookChannelConfig
+  | MqttChannelConfig;
+
 export interface NotificationConfig {
-  command: string; // command to execute on completion
+  command?: string; // shell command to execute on completion (shorthand for a shell channel)
+  channels?: NotificationChannelConfig[];
 }
 
-export interface AppConfig {
+export interface ServerConfig {
+  host?: string; // interface to listen on (default: "0.0.0.0")
+  port: number;
+  token: string; // bearer token required on every request
+  gallery?: boolean; // serve the web gallery at /gallery (default: false)
+}
+
+// Entry of the optional `printers` array - timelapse settings are merged over the top-level section
+export interface PrinterEntryConfig {
+  name: string;
+  prusaLink: PrusaLinkConfig;
+  timelapse?: Partial<TimelapseConfig>;
+}
+
+// Fully resolved settings for one monitored printer
+export interface PrinterConfig {
+  name: string;
   prusaLink: PrusaLinkConfig;
   timelapse: TimelapseConfig;
+}
+
+export interface AppConfig {
+  prusaLink?: PrusaLinkConfig; // single printer setup (required unless printers is set)
+  timelapse: TimelapseConfig;
+  printers?: PrinterEntryConfig[]; // monitor several printers from one service
   notification: NotificationConfig;
+  server?: ServerConfig; // embedded HTTP status/control API (disabled when omitted)
   pollInterval: number; // seconds between API polls
   watchdogTimeout: number; // seconds without seeing PRINTING state before auto-stopping capture (0 = disabled)
 }
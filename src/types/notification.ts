@@ -0,0 +1,25 @@
+import { PrinterState } from "./api";
+import { NotificationEvent } from "./config";
+
+// Describes the print a capture session belongs to (used in events and templates)
+export interface SessionInfo {
+  jobId: number | null;
+  fileName: string | null; // display name of the print file
+  printerHost: string;
+  startedAt: string | null; // ISO timestamp the capture session began
+  finishedAt: string | null; // ISO timestamp the session was finalized
+  printDuration: number | null; // seconds spent printing, as reported by PrusaLink
+  frameCount: number;
+  finalState: PrinterState | null; // state that ended the print, if known
+}
+
+// Body sent to every channel (JSON for webhook and MQTT, env vars for shell)
+export interface NotificationPayload extends SessionInfo {
+  event: NotificationEvent;
+  printer: string;
+  timestamp: string; // ISO timestamp
+  outputPath?: string;
+  outputPaths?: string[]; // main video followed by the encoding variants
+  outputDir?: string;
+  error?: string;
+}